@@ -0,0 +1,1044 @@
+"use client";
+
+import React, { useState, useMemo, useEffect } from "react";
+import { DateTime } from "luxon";
+import Link from "next/link";
+import * as Flags from "country-flag-icons/react/3x2";
+import { 
+  ChevronDownIcon, 
+  ChevronUpIcon, 
+  XMarkIcon, 
+  MagnifyingGlassIcon 
+} from "@heroicons/react/24/outline";
+
+// MUI Imports
+import { ThemeProvider, createTheme } from "@mui/material/styles";
+import { LocalizationProvider } from "@mui/x-date-pickers/LocalizationProvider";
+import { AdapterLuxon } from "@mui/x-date-pickers/AdapterLuxon";
+import { 
+  Button, 
+  Card, 
+  CardContent, 
+  CardHeader, 
+  Typography, 
+  Box, 
+  IconButton, 
+  List, 
+  ListItem, 
+  Collapse,
+  ListItemButton,
+  Chip,
+  Alert,
+  Paper,
+  Container
+} from "@mui/material";
+
+import CountrySelector, { Country } from "@/components/CountrySelector";
+import WorkspaceManager from "@/components/WorkspaceManager";
+import MeetingPlanner from "@/components/MeetingPlanner";
+import MeetingFinder, { MeetingFinderZone } from "@/components/MeetingFinder";
+import ZoneTimeDetails from "@/components/ZoneTimeDetails";
+import DstTimeline from "@/components/DstTimeline";
+import DstWarningBanner from "@/components/DstWarningBanner";
+import CalendarExport from "@/components/CalendarExport";
+import EmbedSnippet from "@/components/EmbedSnippet";
+import TimeScrubber from "@/components/TimeScrubber";
+import ConversionForm from "@/components/ConversionForm";
+import TimeEquivalents, { TimeEquivalent } from "@/components/TimeEquivalents";
+import { usePaletteActions } from "@/components/CommandPalette";
+import {
+  formatUtcOffset,
+  formatZoneOffset,
+  getCountryZones,
+  getTimeZoneFromCode,
+  getZoneCityName,
+  getZoneRouteCode,
+  getZoneShortCode,
+  zoneObservesDst,
+} from "@/lib/timezones";
+import { getAbbreviationCode } from "@/lib/abbreviations";
+import { formatDateSuffix, formatRoute, formatTargetSuffix, ParsedInput, safeDecode } from "@/lib/parseInput";
+import {
+  formatComparisonQuery,
+  POPULAR_TIMEZONES,
+  PopularTimezone,
+  resolveComparison,
+  resolveComparisons,
+} from "@/lib/comparison";
+import { getDefaultWorkspace, loadWorkspaces } from "@/lib/workspaces";
+import { WorkingHours } from "@/lib/meetingPlanner";
+import { getIcsFileName } from "@/lib/ics";
+import { useBrowserTimeZone } from "@/lib/browserZone";
+import {
+  ConversionError,
+  ConversionErrorCode,
+  FoldChoice,
+  parseFoldChoice,
+  resolveConversion,
+} from "@/lib/convert";
+
+// DeepSeek inspired theme - Clean, modern, professional
+const theme = createTheme({
+  palette: {
+    mode: "light",
+    primary: {
+      main: "#1a73e8",
+      light: "#4285f4",
+      dark: "#0d47a1",
+    },
+    secondary: {
+      main: "#5f6368",
+    },
+    background: {
+      default: "#f8f9fa",
+      paper: "#ffffff",
+    },
+    text: {
+      primary: "#202124",
+      secondary: "#5f6368",
+    },
+    divider: "#dadce0",
+  },
+  shape: {
+    borderRadius: 8,
+  },
+  typography: {
+    fontFamily: "'Inter', 'Segoe UI', system-ui, sans-serif",
+    h1: {
+      fontSize: "2.5rem",
+      fontWeight: 600,
+      lineHeight: 1.2,
+    },
+    h2: {
+      fontSize: "2rem",
+      fontWeight: 600,
+      lineHeight: 1.3,
+    },
+    h3: {
+      fontSize: "1.75rem",
+      fontWeight: 600,
+      lineHeight: 1.3,
+    },
+    h4: {
+      fontSize: "1.5rem",
+      fontWeight: 500,
+      lineHeight: 1.4,
+    },
+    body1: {
+      fontSize: "1rem",
+      lineHeight: 1.6,
+    },
+    body2: {
+      fontSize: "0.875rem",
+      lineHeight: 1.5,
+    },
+  },
+  components: {
+    MuiCard: {
+      styleOverrides: {
+        root: {
+          borderRadius: 12,
+          boxShadow: "0 1px 3px rgba(0,0,0,0.1)",
+          border: "1px solid #e8eaed",
+          transition: "box-shadow 0.2s ease",
+          "&:hover": {
+            boxShadow: "0 4px 12px rgba(0,0,0,0.15)",
+          },
+        },
+      },
+    },
+    MuiButton: {
+      styleOverrides: {
+        root: {
+          borderRadius: 8,
+          textTransform: "none",
+          fontWeight: 500,
+          fontSize: "0.875rem",
+          padding: "8px 16px",
+        },
+        contained: {
+          backgroundColor: "#1a73e8",
+          color: "white",
+          "&:hover": {
+            backgroundColor: "#0d47a1",
+          },
+        },
+        outlined: {
+          borderColor: "#dadce0",
+          color: "#1a73e8",
+          "&:hover": {
+            borderColor: "#1a73e8",
+            backgroundColor: "rgba(26, 115, 232, 0.04)",
+          },
+        },
+      },
+    },
+  },
+});
+
+// FlagComponent type
+type FlagComponent = React.ComponentType<{ className?: string; title?: string }>;
+
+/** Warning screen */
+const WarningScreen = ({
+  title,
+  message,
+  usageExample,
+  validCodes = [],
+  choices,
+}: {
+  title: string;
+  message: string;
+  usageExample?: string;
+  validCodes?: string[];
+  /** Offered instead of the format help when the input parsed but needs a decision */
+  choices?: { label: string; description: string; href: string }[];
+}) => (
+  <ThemeProvider theme={theme}>
+    <Box
+      sx={{
+        minHeight: "100vh",
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        bgcolor: "background.default",
+        p: 3,
+      }}
+    >
+      <Card sx={{ maxWidth: 450, width: "100%", textAlign: "center" }}>
+        <CardContent sx={{ p: 4 }}>
+          <Box 
+            sx={{ 
+              width: 64, 
+              height: 64, 
+              mx: "auto", 
+              mb: 3, 
+              bgcolor: "primary.main", 
+              borderRadius: "50%", 
+              display: "flex", 
+              alignItems: "center", 
+              justifyContent: "center" 
+            }}
+          >
+            <MagnifyingGlassIcon className="w-8 h-8" style={{ color: "white" }} />
+          </Box>
+          <Typography variant="h4" component="h1" color="primary" gutterBottom sx={{ fontWeight: 600, mb: 2 }}>
+            {title}
+          </Typography>
+          <Typography variant="body1" color="text.secondary" paragraph sx={{ mb: 3 }}>
+            {message}
+          </Typography>
+          {choices ? (
+            <Box sx={{ display: "flex", flexDirection: "column", gap: 1.5, mb: 3 }}>
+              {choices.map((choice) => (
+                <Button
+                  key={choice.href}
+                  component={Link}
+                  href={choice.href}
+                  variant="outlined"
+                  sx={{ borderRadius: 2, flexDirection: "column", py: 1.5 }}
+                >
+                  <Typography variant="body1" sx={{ fontWeight: 600, fontFamily: "monospace" }}>
+                    {choice.label}
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary" sx={{ textTransform: "none" }}>
+                    {choice.description}
+                  </Typography>
+                </Button>
+              ))}
+            </Box>
+          ) : (
+            <>
+              <Paper sx={{ bgcolor: "background.paper", p: 2, borderRadius: 2, mb: 3, border: "1px solid #e8eaed" }}>
+                <Typography variant="body2" color="text.primary" sx={{ fontWeight: 500 }}>
+                  <strong>Correct format:</strong> <code>/codeHHMM</code> or <code>/codenow</code>
+                </Typography>
+                <Typography variant="body2" color="text.primary" sx={{ mt: 1 }}>
+                  <strong>Other times:</strong> <code>/us2pm</code>, <code>/tr9:30am</code>, <code>/cetnoon</code>, <code>/estmidnight</code> or <code>/jst+2h</code>
+                </Typography>
+                <Typography variant="body2" color="text.primary" sx={{ mt: 1 }}>
+                  <strong>Pin a date:</strong> <code>/codeHHMM-YYYY-MM-DD</code> or <code>/codeHHMM@YYYYMMDD</code>
+                </Typography>
+                <Typography variant="body2" color="text.primary" sx={{ mt: 1 }}>
+                  <strong>Abbreviations:</strong> <code>/ist-ie1330</code> picks a meaning, <code>/pst-dst1330</code> follows daylight saving time
+                </Typography>
+                <Typography variant="body2" color="text.primary" sx={{ mt: 1 }}>
+                  <strong>UTC offsets:</strong> <code>/utc+05301400</code>, <code>/+0530now</code> or <code>/gmt-3_0900</code>
+                </Typography>
+                <Typography variant="body2" color="text.primary" sx={{ mt: 1 }}>
+                  Example: <code style={{ backgroundColor: "#e8f0fe", color: "#1a73e8", padding: "4px 8px", borderRadius: 4, fontFamily: "monospace" }}>{usageExample}</code>
+                </Typography>
+              </Paper>
+              <Typography variant="body2" color="text.primary" gutterBottom sx={{ fontWeight: 500, mb: 2 }}>
+                Valid codes (examples):
+              </Typography>
+              <Box sx={{ display: "flex", flexWrap: "wrap", gap: 1, justifyContent: "center", mb: 3 }}>
+                {validCodes.map((code) => (
+                  <Chip 
+                    key={code} 
+                    label={code} 
+                    variant="outlined" 
+                    size="small"
+                    sx={{ 
+                      borderColor: "#dadce0",
+                      color: "text.primary",
+                      fontWeight: 500
+                    }} 
+                  />
+                ))}
+              </Box>
+            </>
+          )}
+          <Link href="/searchhelp" style={{ textDecoration: "none" }}>
+            <Button
+              variant="contained"
+              startIcon={<MagnifyingGlassIcon className="w-4 h-4" />}
+              color="primary"
+              sx={{ borderRadius: 2 }}
+            >
+              Search Help & Country Codes
+            </Button>
+          </Link>
+        </CardContent>
+      </Card>
+    </Box>
+  </ThemeProvider>
+);
+
+/** Route for one side of a repeated wall time, pinned to its date */
+function formatFoldRoute(parsed: ParsedInput, instant: DateTime, choice: FoldChoice, comparisonQuery: string): string {
+  const date = { year: instant.year, month: instant.month, day: instant.day };
+  return `${formatRoute(parsed.codePart, parsed.time, date, parsed.targetCodes)}${comparisonQuery ? `${comparisonQuery}&` : "?"}at=${choice}`;
+}
+
+/** Usage hints for the warnings that come from malformed input */
+const INPUT_WARNINGS: Record<
+  Exclude<ConversionErrorCode, "nonexistent_time" | "ambiguous_time">,
+  { title: string; usageExample: string; validCodes: string[] }
+> = {
+  too_short: {
+    title: "Invalid Input",
+    usageExample: "TRnow or CET1330",
+    validCodes: ["TR", "US", "FR", "DE", "GB", "CET", "IST", "PST", "UTC", "EST"],
+  },
+  unrecognized: {
+    title: "Unrecognized Input",
+    usageExample: "TR1330, ISTnow or CET0900@20261103",
+    validCodes: ["TR", "US", "CET", "IST-IE", "PST-DST", "UTC+0530", "new_york", "europe-berlin", "tokyo"],
+  },
+  invalid_date: {
+    title: "Invalid Date",
+    usageExample: "TR1330-2026-11-03 or CET0900@20261103",
+    validCodes: ["TR", "US", "CET", "PST"],
+  },
+  invalid_time: {
+    title: "Invalid Time",
+    usageExample: "TR1430, US2pm or CETnow",
+    validCodes: ["TR", "US", "CET", "PST"],
+  },
+};
+
+/** WarningScreen for a failed conversion; skipped and repeated times offer both readings */
+const ConversionWarning = ({ error, comparisonQuery }: { error: ConversionError; comparisonQuery: string }) => {
+  const { code, message, parsed, earlier, later } = error;
+
+  if (code === "nonexistent_time" || code === "ambiguous_time") {
+    if (!parsed || !earlier || !later) return null;
+    // A skipped time links to the real wall time on either side; a repeated one keeps the time and picks a side
+    const getChoiceHref = (instant: DateTime, choice: FoldChoice) =>
+      code === "ambiguous_time"
+        ? formatFoldRoute(parsed, instant, choice, comparisonQuery)
+        : `${formatRoute(
+            parsed.codePart,
+            { kind: "clock", hour: instant.hour, minute: instant.minute },
+            { year: instant.year, month: instant.month, day: instant.day },
+            parsed.targetCodes
+          )}${comparisonQuery}`;
+
+    return (
+      <WarningScreen
+        title={code === "nonexistent_time" ? "Time Skipped" : "Time Happens Twice"}
+        message={`${message} Pick the one you meant:`}
+        choices={[
+          {
+            label: `Earlier: ${earlier.toFormat("HH:mm")} ${formatZoneOffset(earlier)}`,
+            description: "Before the clocks change",
+            href: getChoiceHref(earlier, "earlier"),
+          },
+          {
+            label: `Later: ${later.toFormat("HH:mm")} ${formatZoneOffset(later)}`,
+            description: "After the clocks change",
+            href: getChoiceHref(later, "later"),
+          },
+        ]}
+      />
+    );
+  }
+
+  return <WarningScreen {...INPUT_WARNINGS[code]} message={message} />;
+};
+
+interface TimezonePageProps {
+  /** Decoded route segment, e.g. "tr1330@20261103" */
+  input: string;
+  /** Codes from ?vs= */
+  comparisonCodes: string[];
+  /** `?at=` picks a side of a wall time that happens twice, e.g. on a fall-back night */
+  at: string | null;
+  /** Server render time, so live inputs hydrate to the same clock */
+  renderedAt: number;
+}
+
+export default function TimezonePage({ input, comparisonCodes, at, renderedAt }: TimezonePageProps) {
+  const [isChanging, setIsChanging] = useState(false);
+  const [showPopular, setShowPopular] = useState(true);
+  // Comparison rows live in ?vs= so a reload or a shared link rebuilds the same table
+  const [selectedCountries, setSelectedCountries] = useState<Country[]>(() =>
+    resolveComparisons(comparisonCodes)
+  );
+  const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set());
+  // Working hours per row code; rows without an entry use the 09:00-18:00 default
+  const [workingHours, setWorkingHours] = useState<Record<string, WorkingHours>>({});
+  const [currentTime, setCurrentTime] = useState<DateTime>(() => DateTime.fromMillis(renderedAt));
+  // Route the time scrubber moved to, kept only while the page still shows the route it started from
+  const [scrubbed, setScrubbed] = useState<{ from: string; input: string } | null>(null);
+  const activeInput = scrubbed && scrubbed.from === input ? scrubbed.input : input;
+  const browserZone = useBrowserTimeZone();
+
+  const comparisonQuery = formatComparisonQuery(selectedCountries);
+
+  // Without an explicit ?vs= the default workspace (if any) fills the comparison card
+  const hasComparisonCodes = comparisonCodes.length > 0;
+  useEffect(() => {
+    if (hasComparisonCodes) return;
+    const workspace = getDefaultWorkspace(loadWorkspaces());
+    if (workspace) {
+      setSelectedCountries(resolveComparisons(workspace.codes));
+    }
+  }, [hasComparisonCodes]);
+
+  useEffect(() => {
+    // Keep any other parameter (?at=) next to the synced comparison list
+    const rest = new URLSearchParams(window.location.search);
+    rest.delete("vs");
+    const extra = rest.toString();
+    const url = `${window.location.pathname}${comparisonQuery}${extra ? `${comparisonQuery ? "&" : "?"}${extra}` : ""}`;
+    if (url !== `${window.location.pathname}${window.location.search}`) {
+      window.history.replaceState(null, "", url);
+    }
+  }, [comparisonQuery]);
+
+  usePaletteActions(
+    useMemo(
+      () => ({
+        addComparison: (code: string) => {
+          const row = resolveComparison(code);
+          if (row) {
+            setSelectedCountries(prev => (prev.some(c => c.code === row.code) ? prev : [...prev, row]));
+          }
+        },
+        clearComparisons: () => setSelectedCountries([]),
+      }),
+      []
+    )
+  );
+
+  const result = resolveConversion(activeInput, { now: currentTime, at: parseFoldChoice(at) });
+  const isLive = result.ok && result.conversion.parsed.time.kind === "now";
+
+  // Fix: Client-only interval for live updates
+  useEffect(() => {
+    if (!isLive) return;
+    if (typeof window === 'undefined') return; // SSR guard
+
+    const interval = setInterval(() => {
+      setCurrentTime(DateTime.now());
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [isLive]);
+
+  // Kept stable across live ticks, so the DST cards and planners only rescan when the rows change
+  const source = result.ok ? result.conversion.parsed : null;
+  const baseKey = source ? source.codePart.toLowerCase() : "";
+  const baseLabel = source ? source.zoneInfo.displayName : "";
+  const baseTimezone = source ? source.zoneInfo.timezone : "";
+  const plannerZones = useMemo<MeetingFinderZone[]>(
+    () => [
+      { key: baseKey, label: baseLabel, timezone: baseTimezone, workingHours: workingHours[baseKey] },
+      ...selectedCountries.map((c) => ({
+        key: c.code,
+        label: c.name,
+        timezone: c.timezone,
+        workingHours: workingHours[c.code],
+      })),
+    ],
+    [baseKey, baseLabel, baseTimezone, selectedCountries, workingHours]
+  );
+
+  if (!result.ok) {
+    return <ConversionWarning error={result.error} comparisonQuery={comparisonQuery} />;
+  }
+
+  const { parsed, baseTime, fold } = result.conversion;
+  const { zoneInfo, codePart, timePart, time, datePart, targetCodes } = parsed;
+
+  // Set when the route's wall time happens twice and ?at= picked one of them
+  const foldNotice = fold
+    ? {
+        ...fold,
+        href: formatFoldRoute(parsed, fold.other, fold.chosen === "earlier" ? "later" : "earlier", comparisonQuery),
+      }
+    : null;
+
+  const formattedDate = datePart ? baseTime.toFormat("cccc, d LLLL yyyy", { locale: "en-US" }) : null;
+
+  const formattedLocalTime = isLive 
+    ? baseTime.toFormat("HH:mm:ss")
+    : baseTime.toFormat("HH:mm");
+
+  const getCountryTime = (timezone: string) => {
+    try {
+      return isLive 
+        ? baseTime.setZone(timezone).toFormat("HH:mm:ss")
+        : baseTime.setZone(timezone).toFormat("HH:mm");
+    } catch (err) {
+      console.warn("Timezone conversion failed:", err);
+      return baseTime.setZone("UTC").toFormat("HH:mm");
+    }
+  };
+
+  // The visitor's own clock, pinned above the chosen rows
+  const youRow = browserZone
+    ? {
+        timezone: browserZone,
+        name: `You (${getZoneCityName(browserZone)})`,
+        flagComponent: getTimeZoneFromCode(getZoneRouteCode(browserZone))?.flagComponent,
+      }
+    : null;
+
+  // "Convert to my time": the viewer's zone (unless it is the source) and every "-to-" target
+  const equivalents: TimeEquivalent[] = [
+    ...(browserZone && browserZone !== zoneInfo.timezone
+      ? [{ key: "you", label: `for you in ${getZoneCityName(browserZone)}`, timezone: browserZone, flagComponent: youRow?.flagComponent }]
+      : []),
+    ...targetCodes.flatMap((code) => {
+      const target = getTimeZoneFromCode(code);
+      return target && target.timezone !== browserZone
+        ? [{ key: code, label: `in ${target.displayName}`, timezone: target.timezone, flagComponent: target.flagComponent }]
+        : [];
+    }),
+  ];
+
+  const handleClearAll = () => setSelectedCountries([]);
+  const handleRemoveCountry = (code: string) => setSelectedCountries(prev => prev.filter(c => c.code !== code));
+  const handleToggleRow = (code: string) => {
+    setExpandedRows((prev) => {
+      const next = new Set(prev);
+      if (next.has(code)) {
+        next.delete(code);
+      } else {
+        next.add(code);
+      }
+      return next;
+    });
+  };
+
+  const { abbreviation } = zoneInfo;
+
+  // Multi-zone countries (US, RU, AU...) get a chooser that re-anchors the same wall time
+  const countryZones = zoneInfo.countryCode ? getCountryZones(zoneInfo.countryCode) : [];
+  // Date and "-to-" targets, kept when a link only swaps the source code
+  const routeSuffix = `${formatDateSuffix(datePart)}${formatTargetSuffix(targetCodes)}`;
+
+  // Positions that don't resolve (skipped by a clock change) leave the thumb where it was
+  const getScrubRoute = (hour: number, minute: number) => {
+    const route = formatRoute(codePart, { kind: "clock", hour, minute }, datePart, targetCodes);
+    return resolveConversion(safeDecode(route.slice(1)), { now: currentTime, at: parseFoldChoice(at) }).ok ? route : null;
+  };
+
+  const handleScrub = (hour: number, minute: number) => {
+    const route = getScrubRoute(hour, minute);
+    if (route) {
+      setScrubbed({ from: input, input: safeDecode(route.slice(1)) });
+    }
+  };
+
+  const handleScrubCommitted = (hour: number, minute: number) => {
+    const route = getScrubRoute(hour, minute);
+    if (route) {
+      window.history.replaceState(null, "", `${route}${window.location.search}`);
+    }
+  };
+
+  const handleAddPopular = (tz: PopularTimezone) => {
+    const existing = selectedCountries.find(c => c.timezone === tz.timezone);
+    const row = resolveComparison(tz.code);
+    if (!existing && row) {
+      setSelectedCountries(prev => [...prev, row]);
+    }
+  };
+
+  return (
+    <ThemeProvider theme={theme}>
+      <LocalizationProvider dateAdapter={AdapterLuxon}>
+        <Box sx={{ minHeight: "100vh", bgcolor: "background.default" }}>
+          {/* Header */}
+ 
+
+          <Container maxWidth="lg">
+            <Box sx={{ display: "grid", gridTemplateColumns: { xs: "1fr", lg: "1fr 1fr" }, gap: 3, pb: 4 }}>
+              
+              {/* Left Panel */}
+              <Box sx={{ display: "flex", flexDirection: "column", gap: 3 }}>
+
+                {/* Upcoming clock changes for the base zone or any row */}
+                <DstWarningBanner from={baseTime} zones={plannerZones} />
+                
+                {/* Current Timezone Card */}
+                <Card>
+                  <CardHeader
+                    title="Current Timezone"
+                    action={
+                      !isChanging && (
+                        <Button
+                          onClick={() => setIsChanging(true)}
+                          variant="contained"
+                          size="small"
+                          color="primary"
+                        >
+                          Change
+                        </Button>
+                      )
+                    }
+                    titleTypographyProps={{ variant: "h6", color: "text.primary", fontWeight: 600 }}
+                  />
+                  <CardContent>
+                    <Box sx={{ textAlign: "center", py: 2 }}>
+                      <Box sx={{ mx: "auto", mb: 3, width: 48, height: 32 }}>
+                        {zoneInfo.flagComponent}
+                      </Box>
+                      <Typography variant="h3" color="primary" sx={{ fontWeight: 600, mb: 2 }}>
+                        {zoneInfo.displayName}
+                      </Typography>
+                      <Typography 
+                        variant="h2" 
+                        color="text.primary" 
+                        sx={{ 
+                          fontFamily: "monospace", 
+                          fontSize: { xs: "2.5rem", md: "3rem" },
+                          fontWeight: 600,
+                          mb: 2
+                        }}
+                        suppressHydrationWarning // Fix: Suppress mismatch for live time
+                      >
+                        {formattedLocalTime}
+                      </Typography>
+                      {formattedDate && (
+                        <Typography variant="h6" color="text.secondary" sx={{ mb: 2 }}>
+                          {formattedDate}
+                        </Typography>
+                      )}
+                      <Box sx={{ mb: 2 }}>
+                        <ZoneTimeDetails local={baseTime} base={baseTime} compact={Boolean(formattedDate)} justifyContent="center" />
+                      </Box>
+                      <TimeEquivalents base={baseTime} equivalents={equivalents} timeFormat={isLive ? "HH:mm:ss" : "HH:mm"} />
+                      {!isLive && (
+                        <TimeScrubber value={baseTime} onChange={handleScrub} onChangeCommitted={handleScrubCommitted} />
+                      )}
+                      {foldNotice && (
+                        <Alert severity="info" sx={{ mb: 2, borderRadius: 2, textAlign: "left" }}>
+                          {formattedLocalTime} happens twice on this date. Showing the {foldNotice.chosen} one ({formatZoneOffset(baseTime)});{" "}
+                          <Link href={foldNotice.href}>
+                            show the {foldNotice.chosen === "earlier" ? "later" : "earlier"} one ({formatZoneOffset(foldNotice.other)})
+                          </Link>
+                          .
+                        </Alert>
+                      )}
+                      {isLive && (
+                        <Chip 
+                          label={timePart === "now" ? "🔴 Live" : `🔴 Live ${timePart}`} 
+                          color="success" 
+                          size="small" 
+                          sx={{ 
+                            fontWeight: 600,
+                            backgroundColor: "#34a853",
+                            color: "white"
+                          }} 
+                        />
+                      )}
+                      <Typography variant="body1" color="text.secondary" sx={{ mt: 2 }}>
+                        {zoneInfo.timezone}
+                      </Typography>
+                      <Box sx={{ mt: 2, display: "flex", gap: 1, justifyContent: "center", flexWrap: "wrap" }}>
+                        <CalendarExport
+                          start={baseTime}
+                          fileName={getIcsFileName(activeInput)}
+                          getIcsHref={(title, duration) =>
+                            `${formatRoute(codePart, time, datePart)}/ics?title=${encodeURIComponent(title)}&duration=${duration}${fold ? `&at=${fold.chosen}` : ""}`
+                          }
+                        />
+                        <EmbedSnippet
+                          embedPath={`/embed${formatRoute(codePart, time, datePart)}${comparisonQuery}${fold ? `${comparisonQuery ? "&" : "?"}at=${fold.chosen}` : ""}`}
+                          rowCount={selectedCountries.length}
+                          title={`Time in ${zoneInfo.displayName}`}
+                        />
+                      </Box>
+                      {abbreviation && (
+                        <Box sx={{ mt: 2 }}>
+                          <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+                            {abbreviation.entry.name}
+                          </Typography>
+                          {zoneObservesDst(abbreviation.entry.timezone) && (
+                            <Box sx={{ display: "flex", gap: 1, justifyContent: "center", flexWrap: "wrap" }}>
+                              <Chip
+                                component={Link}
+                                href={`/${getAbbreviationCode(abbreviation.entry, false)}${timePart}${routeSuffix}${comparisonQuery}`}
+                                clickable
+                                label={`Fixed ${formatUtcOffset(abbreviation.entry.offset)}`}
+                                color="primary"
+                                variant={abbreviation.followDst ? "outlined" : "filled"}
+                                size="small"
+                              />
+                              <Chip
+                                component={Link}
+                                href={`/${getAbbreviationCode(abbreviation.entry, true)}${timePart}${routeSuffix}${comparisonQuery}`}
+                                clickable
+                                label={`Follow DST (${abbreviation.entry.timezone})`}
+                                color="primary"
+                                variant={abbreviation.followDst ? "filled" : "outlined"}
+                                size="small"
+                              />
+                            </Box>
+                          )}
+                        </Box>
+                      )}
+                    </Box>
+                    {abbreviation && abbreviation.alternatives.length > 0 && (
+                      <Alert severity="info" sx={{ borderRadius: 2, textAlign: "left" }}>
+                        {abbreviation.entry.abbreviation} is ambiguous, showing {abbreviation.entry.name}. Did you mean{" "}
+                        {abbreviation.alternatives.map((alt, i) => (
+                          <React.Fragment key={alt.key}>
+                            {i > 0 && (i === abbreviation.alternatives.length - 1 ? " or " : ", ")}
+                            <Link href={`/${getAbbreviationCode(alt, abbreviation.followDst)}${timePart}${routeSuffix}${comparisonQuery}`}>
+                              {alt.name}
+                            </Link>
+                          </React.Fragment>
+                        ))}
+                        ?
+                      </Alert>
+                    )}
+                  </CardContent>
+                </Card>
+
+                {/* Country Zone Chooser */}
+                {countryZones.length > 1 && zoneInfo.countryCode && (
+                  <Card>
+                    <CardHeader
+                      title={`${countryZones.length} Time Zones in This Country`}
+                      subheader={`Showing ${zoneInfo.timezone}. Pick another zone to read ${isLive ? "the current time" : formattedLocalTime} there instead.`}
+                      titleTypographyProps={{ variant: "h6", color: "text.primary", fontWeight: 600 }}
+                    />
+                    <CardContent>
+                      <List sx={{ maxHeight: 300, overflow: "auto" }}>
+                        {countryZones.map((tz) => {
+                          const shortCode = getZoneShortCode(zoneInfo.countryCode!, tz);
+                          return (
+                            <ListItem key={tz} disablePadding sx={{ px: 1 }}>
+                              <ListItemButton
+                                component={Link}
+                                href={`/${zoneInfo.countryCode!.toLowerCase()}-${shortCode}${timePart}${routeSuffix}${comparisonQuery}`}
+                                selected={tz === zoneInfo.timezone}
+                                sx={{ borderRadius: 2 }}
+                              >
+                                <Box sx={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 2, width: "100%" }}>
+                                  <Box>
+                                    <Typography variant="body1" color="text.primary" fontWeight={500}>
+                                      {tz}
+                                    </Typography>
+                                    <Typography variant="caption" color="text.secondary">
+                                      /{zoneInfo.countryCode!.toLowerCase()}-{shortCode}{timePart}
+                                    </Typography>
+                                  </Box>
+                                  <Chip
+                                    label={baseTime.setZone(tz, { keepLocalTime: true }).toFormat("'UTC'ZZ")}
+                                    size="small"
+                                    variant="outlined"
+                                    sx={{ fontFamily: "monospace" }}
+                                  />
+                                </Box>
+                              </ListItemButton>
+                            </ListItem>
+                          );
+                        })}
+                      </List>
+                    </CardContent>
+                  </Card>
+                )}
+
+                {/* Change Settings Card */}
+                {isChanging && (
+                  <Card>
+                    <CardHeader 
+                      title="Change Settings" 
+                      titleTypographyProps={{ variant: "h6", color: "text.primary", fontWeight: 600 }}
+                    />
+                    <CardContent>
+                      <ConversionForm
+                        query={comparisonQuery}
+                        submitLabel="Update Timezone"
+                        onCancel={() => setIsChanging(false)}
+                      />
+                    </CardContent>
+                  </Card>
+                )}
+
+                {/* Selected Comparisons */}
+                {(youRow || selectedCountries.length > 0) && (
+                  <Card>
+                    <CardHeader
+                      title="Selected Comparisons"
+                      action={
+                        selectedCountries.length > 0 && (
+                          <Button
+                            onClick={handleClearAll}
+                            size="small"
+                            color="primary"
+                            startIcon={<XMarkIcon className="w-4 h-4" />}
+                          >
+                            Clear All
+                          </Button>
+                        )
+                      }
+                      titleTypographyProps={{ variant: "h6", color: "text.primary", fontWeight: 600 }}
+                    />
+                    <CardContent>
+                      <List sx={{ maxHeight: 400, overflow: "auto" }}>
+                        {youRow && (
+                          <ListItem sx={{ px: 1 }}>
+                            <Box sx={{ display: "flex", alignItems: "center", gap: 2, width: "100%", px: 2, py: 2, borderRadius: 2, bgcolor: "action.hover" }}>
+                              <Box sx={{ width: 32, height: 20 }}>
+                                {youRow.flagComponent}
+                              </Box>
+                              <Box sx={{ flexGrow: 1 }}>
+                                <Typography variant="body1" component="div" color="text.primary" fontWeight={500}>
+                                  {youRow.name}
+                                  <Chip label="Your zone" size="small" color="primary" sx={{ ml: 1, fontWeight: 500 }} />
+                                </Typography>
+                                <Typography
+                                  variant="body2"
+                                  color="primary"
+                                  sx={{
+                                    fontFamily: "monospace",
+                                    fontWeight: 600,
+                                    fontSize: "1.1rem"
+                                  }}
+                                  suppressHydrationWarning
+                                >
+                                  {getCountryTime(youRow.timezone)}
+                                </Typography>
+                                <ZoneTimeDetails local={baseTime.setZone(youRow.timezone)} base={baseTime} />
+                                <Typography variant="caption" color="text.secondary">
+                                  {youRow.timezone}
+                                </Typography>
+                              </Box>
+                            </Box>
+                          </ListItem>
+                        )}
+                        {selectedCountries.map((country) => (
+                          <ListItem
+                            key={country.code}
+                            secondaryAction={
+                              <IconButton 
+                                edge="end" 
+                                onClick={() => handleRemoveCountry(country.code)}
+                                size="small"
+                              >
+                                <XMarkIcon className="w-4 h-4" />
+                              </IconButton>
+                            }
+                            sx={{ px: 1 }}
+                          >
+                            <ListItemButton
+                              onClick={() => country.timezones.length > 1 && handleToggleRow(country.code)}
+                              sx={{ borderRadius: 2, py: 2 }}
+                            >
+                              <Box sx={{ display: "flex", alignItems: "center", gap: 2, width: "100%" }}>
+                                <Box sx={{ width: 32, height: 20 }}>
+                                  {country.flagComponent}
+                                </Box>
+                                <Box sx={{ flexGrow: 1 }}>
+                                  <Typography variant="body1" component="div" color="text.primary" fontWeight={500}>
+                                    {country.name}
+                                    {country.timezones.length > 1 && (
+                                      <Chip
+                                        label={`${country.timezones.length} zones`}
+                                        size="small"
+                                        variant="outlined"
+                                        sx={{ ml: 1, fontWeight: 500 }}
+                                      />
+                                    )}
+                                  </Typography>
+                                  <Typography 
+                                    variant="body2" 
+                                    color="primary" 
+                                    sx={{ 
+                                      fontFamily: "monospace",
+                                      fontWeight: 600,
+                                      fontSize: "1.1rem"
+                                    }}
+                                    suppressHydrationWarning // Fix: Suppress mismatch for live comparison times
+                                  >
+                                    {getCountryTime(country.timezone)}
+                                  </Typography>
+                                  <ZoneTimeDetails local={baseTime.setZone(country.timezone)} base={baseTime} />
+                                  <Typography variant="caption" color="text.secondary">
+                                    {country.timezone}
+                                  </Typography>
+                                  {country.timezones.length > 1 && (
+                                    <Collapse in={expandedRows.has(country.code)}>
+                                      <Box sx={{ mt: 1, display: "flex", flexDirection: "column", gap: 0.5 }}>
+                                        {country.timezones.map((tz) => (
+                                          <Box key={tz} sx={{ display: "flex", justifyContent: "space-between", gap: 2 }}>
+                                            <Typography variant="caption" color="text.secondary">
+                                              {tz}
+                                            </Typography>
+                                            <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+                                              <ZoneTimeDetails local={baseTime.setZone(tz)} base={baseTime} compact />
+                                              <Typography
+                                                variant="caption"
+                                                color="primary"
+                                                sx={{ fontFamily: "monospace", fontWeight: 600 }}
+                                                suppressHydrationWarning
+                                              >
+                                                {getCountryTime(tz)}
+                                              </Typography>
+                                            </Box>
+                                          </Box>
+                                        ))}
+                                      </Box>
+                                    </Collapse>
+                                  )}
+                                </Box>
+                              </Box>
+                            </ListItemButton>
+                          </ListItem>
+                        ))}
+                      </List>
+                    </CardContent>
+                  </Card>
+                )}
+
+                {/* Popular Timezones */}
+                <Card>
+                  <CardHeader
+                    title="Popular Timezones"
+                    action={
+                      <IconButton onClick={() => setShowPopular(!showPopular)}>
+                        {showPopular ? <ChevronUpIcon className="w-5 h-5" /> : <ChevronDownIcon className="w-5 h-5" />}
+                      </IconButton>
+                    }
+                    titleTypographyProps={{ variant: "h6", color: "text.primary", fontWeight: 600 }}
+                  />
+                  <Collapse in={showPopular}>
+                    <CardContent>
+                      <List>
+                        {POPULAR_TIMEZONES.map((tz) => (
+                          <ListItem key={tz.timezone} sx={{ px: 1 }}>
+                            <ListItemButton 
+                              onClick={() => handleAddPopular(tz)}
+                              sx={{ borderRadius: 2, py: 2 }}
+                            >
+                              <Box sx={{ display: "flex", alignItems: "center", gap: 2, width: "100%" }}>
+                                <Box sx={{ width: 32, height: 20 }}>
+                                  {tz.flagComponent}
+                                </Box>
+                                <Box sx={{ flexGrow: 1 }}>
+                                  <Typography variant="body1" color="text.primary" fontWeight={500}>
+                                    {tz.name}
+                                  </Typography>
+                                  <Typography 
+                                    variant="body2" 
+                                    color="primary"
+                                    sx={{ 
+                                      fontFamily: "monospace",
+                                      fontWeight: 600
+                                    }}
+                                    suppressHydrationWarning // Fix: Suppress mismatch for live popular times
+                                  >
+                                    {getCountryTime(tz.timezone)}
+                                  </Typography>
+                                  <ZoneTimeDetails local={baseTime.setZone(tz.timezone)} base={baseTime} />
+                                </Box>
+                              </Box>
+                            </ListItemButton>
+                          </ListItem>
+                        ))}
+                      </List>
+                    </CardContent>
+                  </Collapse>
+                </Card>
+              </Box>
+
+              {/* Right Panel - Workspaces & Country Selector */}
+              <Box sx={{ display: "flex", flexDirection: "column", gap: 3 }}>
+                <WorkspaceManager
+                  currentCodes={selectedCountries.map((c) => c.code.toLowerCase())}
+                  onLoadWorkspace={(codes) => setSelectedCountries(resolveComparisons(codes))}
+                />
+                <CountrySelector
+                  onSelectCountry={(country) => {
+                    const FlagComponent = Flags[country.code.toUpperCase() as keyof typeof Flags] as FlagComponent;
+                    setSelectedCountries((prev) =>
+                      prev.some((x) => x.code === country.code) 
+                        ? prev 
+                        : [...prev, { 
+                            ...country, 
+                            flagComponent: <FlagComponent className="w-6 h-4" /> 
+                          }]
+                    );
+                  }}
+                />
+              </Box>
+
+              {/* Meeting Planner - full width under both panels */}
+              {selectedCountries.length > 0 && (
+                <Box sx={{ gridColumn: "1 / -1", minWidth: 0 }}>
+                  <MeetingPlanner
+                    day={baseTime}
+                    zones={plannerZones}
+                    activeHour={isLive ? undefined : baseTime.hour}
+                    getSlotHref={(hour) =>
+                      `${formatRoute(codePart, { kind: "clock", hour, minute: 0 }, datePart, targetCodes)}${comparisonQuery}`
+                    }
+                  />
+                </Box>
+              )}
+
+              {/* Meeting Finder - ranks slots using the same working hours as the planner */}
+              {selectedCountries.length > 0 && (
+                <Box sx={{ gridColumn: "1 / -1", minWidth: 0 }}>
+                  <MeetingFinder
+                    day={baseTime}
+                    zones={plannerZones}
+                    onChangeWorkingHours={(key, hours) =>
+                      setWorkingHours((prev) => ({ ...prev, [key]: hours }))
+                    }
+                    getSuggestionHref={(start) =>
+                      `${formatRoute(codePart, { kind: "clock", hour: start.hour, minute: start.minute }, datePart, targetCodes)}${comparisonQuery}`
+                    }
+                  />
+                </Box>
+              )}
+
+              {/* DST timeline - previous/next transition and the coming year per zone */}
+              <Box sx={{ gridColumn: "1 / -1", minWidth: 0 }}>
+                <DstTimeline from={baseTime} zones={plannerZones} />
+              </Box>
+            </Box>
+          </Container>
+        </Box>
+      </LocalizationProvider>
+    </ThemeProvider>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { parseFoldChoice, resolveConversion } from "@/lib/convert";
+import { buildIcsCalendar, DEFAULT_EVENT_DURATION, DEFAULT_EVENT_TITLE, getIcsFileName } from "@/lib/ics";
+import { safeDecode } from "@/lib/parseInput";
+
+// A "trnow" event starts when the file is downloaded, so it can't be built once at deploy time
+export const dynamic = "force-dynamic";
+
+/** Longest event the route accepts, in minutes */
+const MAX_DURATION = 24 * 60;
+
+/**
+ * GET /tr1330@20261103/ics?title=Standup&duration=30[&at=earlier|later]
+ * Downloads the conversion's instant as a calendar event in the source zone.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ input: string }> }) {
+  const input = safeDecode((await params).input);
+  const { searchParams } = request.nextUrl;
+
+  const at = parseFoldChoice(searchParams.get("at"));
+  const result = resolveConversion(input, { at });
+  if (!result.ok) {
+    const { code, message } = result.error;
+    return NextResponse.json({ error: { code, message } }, { status: 400 });
+  }
+
+  const duration = Number(searchParams.get("duration") || DEFAULT_EVENT_DURATION);
+  if (!Number.isInteger(duration) || duration < 1 || duration > MAX_DURATION) {
+    return NextResponse.json(
+      { error: { code: "invalid_duration", message: `Duration must be 1 to ${MAX_DURATION} minutes.` } },
+      { status: 400 }
+    );
+  }
+
+  const pageUrl = new URL(`/${encodeURIComponent(input)}${at ? `?at=${at}` : ""}`, request.nextUrl.origin).toString();
+  const body = buildIcsCalendar({
+    start: result.conversion.baseTime,
+    durationMinutes: duration,
+    title: searchParams.get("title")?.trim() || DEFAULT_EVENT_TITLE,
+    description: `Converted with Timezone Baby: ${pageUrl}`,
+    url: pageUrl,
+  });
+
+  return new NextResponse(body, {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${getIcsFileName(input)}"`,
+    },
+  });
+}
@@ -0,0 +1,135 @@
+import { ImageResponse } from "next/og";
+import * as FlagSvgs from "country-flag-icons/string/3x2";
+import { getCountryForTimezone } from "countries-and-timezones";
+import { resolveConversion } from "@/lib/convert";
+import { getPreviewZones } from "@/lib/comparison";
+import { safeDecode } from "@/lib/parseInput";
+import { formatDayShift, getDayShift } from "@/lib/timezones";
+
+export const alt = "Time conversion on Timezone Baby";
+export const size = { width: 1200, height: 630 };
+export const contentType = "image/png";
+
+/** Flag as a data URI; satori renders SVG images but not the React flag components */
+function getFlagSrc(countryCode: string | undefined): string | null {
+  const svg = countryCode ? FlagSvgs[countryCode.toUpperCase() as keyof typeof FlagSvgs] : undefined;
+  return svg ? `data:image/svg+xml;base64,${Buffer.from(svg).toString("base64")}` : null;
+}
+
+const getZoneCountryCode = (timezone: string) => getCountryForTimezone(timezone)?.id;
+
+export default async function Image({ params }: { params: { input: string } }) {
+  const result = resolveConversion(safeDecode(params.input));
+
+  if (!result.ok) {
+    return new ImageResponse(
+      (
+        <div
+          style={{
+            width: "100%",
+            height: "100%",
+            display: "flex",
+            flexDirection: "column",
+            alignItems: "center",
+            justifyContent: "center",
+            background: "#f8f9fa",
+            color: "#202124",
+            fontSize: 56,
+            fontWeight: 600,
+          }}
+        >
+          <div style={{ color: "#1a73e8" }}>Timezone Baby</div>
+          <div style={{ fontSize: 32, color: "#5f6368", marginTop: 24 }}>Convert any time between time zones</div>
+        </div>
+      ),
+      size
+    );
+  }
+
+  const { parsed, baseTime } = result.conversion;
+  const { zoneInfo, time, datePart } = parsed;
+  const sourceFlag = getFlagSrc(zoneInfo.countryCode || getZoneCountryCode(zoneInfo.timezone));
+  // "-to-" targets replace the default cities
+  const targets = getPreviewZones(parsed.targetCodes)
+    .filter((zone) => zone.timezone !== zoneInfo.timezone)
+    .map((zone) => {
+      const local = baseTime.setZone(zone.timezone);
+      return {
+        ...zone,
+        local,
+        flag: getFlagSrc(getZoneCountryCode(zone.timezone)),
+        dayShift: formatDayShift(getDayShift(baseTime, local)),
+      };
+    });
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          flexDirection: "column",
+          justifyContent: "space-between",
+          padding: "56px 72px",
+          background: "#f8f9fa",
+          color: "#202124",
+        }}
+      >
+        <div style={{ display: "flex", alignItems: "center" }}>
+          {sourceFlag && (
+            <img src={sourceFlag} width={120} height={80} alt="" style={{ borderRadius: 8, border: "1px solid #e8eaed", marginRight: 32 }} />
+          )}
+          <div style={{ display: "flex", flexDirection: "column" }}>
+            <div style={{ fontSize: 52, fontWeight: 600, color: "#1a73e8" }}>{zoneInfo.displayName}</div>
+            <div style={{ fontSize: 28, color: "#5f6368" }}>
+              {time.kind === "now" || datePart
+                ? `${baseTime.toFormat("cccc, d LLLL yyyy", { locale: "en-US" })} · ${zoneInfo.timezone}`
+                : zoneInfo.timezone}
+            </div>
+          </div>
+        </div>
+
+        <div style={{ display: "flex", alignItems: "baseline" }}>
+          <div style={{ fontSize: 180, fontWeight: 700, letterSpacing: -4 }}>{baseTime.toFormat("HH:mm")}</div>
+          {time.kind === "now" && (
+            <div style={{ fontSize: 36, color: "#34a853", fontWeight: 600, marginLeft: 32 }}>
+              {parsed.timePart === "now" ? "now" : parsed.timePart}
+            </div>
+          )}
+        </div>
+
+        <div style={{ display: "flex" }}>
+          {targets.map((target) => (
+            <div
+              key={target.timezone}
+              style={{
+                display: "flex",
+                alignItems: "center",
+                background: "#ffffff",
+                border: "2px solid #e8eaed",
+                borderRadius: 16,
+                padding: "20px 28px",
+                marginRight: 24,
+              }}
+            >
+              {target.flag && (
+                    <img src={target.flag} width={60} height={40} alt="" style={{ borderRadius: 4, border: "1px solid #e8eaed", marginRight: 20 }} />
+              )}
+              <div style={{ display: "flex", flexDirection: "column" }}>
+                <div style={{ fontSize: 24, color: "#5f6368" }}>{target.label}</div>
+                <div style={{ display: "flex", alignItems: "baseline" }}>
+                  <div style={{ fontSize: 48, fontWeight: 600, color: "#1a73e8" }}>{target.local.toFormat("HH:mm")}</div>
+                  {target.dayShift && (
+                    <div style={{ fontSize: 22, color: "#e37400", marginLeft: 12 }}>{target.dayShift}</div>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    ),
+    size
+  );
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { parseFoldChoice, resolveConversion, summarizeZonedTime } from "@/lib/convert";
+import { parseComparisonCodes } from "@/lib/comparison";
+import { getTimeZoneFromCode } from "@/lib/timezones";
+
+// Live inputs ("trnow") change every request
+export const dynamic = "force-dynamic";
+
+// Query strings decode an unescaped "+" as a space; codes never contain spaces, so "utc+0530" and "trnow+2h" come back
+const restorePlus = (value: string) => value.replace(/ /g, "+");
+
+/**
+ * GET /api/convert?q=tr1330&to=us,jp,cet[&at=earlier|later]
+ * Same grammar as the page route; errors carry the code of the matching warning screen.
+ */
+export function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const query = restorePlus(searchParams.get("q") || "").trim();
+  const targets = parseComparisonCodes(searchParams.getAll("to").map(restorePlus));
+
+  const result = resolveConversion(query, { at: parseFoldChoice(searchParams.get("at")) });
+  if (!result.ok) {
+    const { code, message, earlier, later } = result.error;
+    return NextResponse.json(
+      {
+        error: {
+          code,
+          message,
+          ...(earlier && later ? { alternatives: { earlier: earlier.toISO(), later: later.toISO() } } : {}),
+        },
+      },
+      { status: 400 }
+    );
+  }
+
+  const { parsed, baseTime, fold } = result.conversion;
+  const { zoneInfo } = parsed;
+
+  // "q=jst1500-to-tr" names targets in the query itself, ahead of any ?to= codes
+  const allTargets = Array.from(new Set([...parsed.targetCodes, ...targets]));
+  const resolvedTargets = allTargets.map((code) => {
+    const target = getTimeZoneFromCode(code);
+    if (!target) return { code, error: { code: "unrecognized", message: `Unknown zone code "${code}".` } };
+    return {
+      code,
+      name: target.displayName,
+      timezone: target.timezone,
+      ...summarizeZonedTime(baseTime.setZone(target.timezone), baseTime),
+    };
+  });
+
+  return NextResponse.json({
+    query,
+    instant: baseTime.toUTC().toISO(),
+    live: parsed.time.kind === "now",
+    fold: fold ? fold.chosen : null,
+    source: {
+      code: parsed.codePart.toLowerCase(),
+      name: zoneInfo.displayName,
+      timezone: zoneInfo.timezone,
+      countryCode: zoneInfo.countryCode || null,
+      ...summarizeZonedTime(baseTime, baseTime),
+    },
+    targets: resolvedTargets,
+  });
+}
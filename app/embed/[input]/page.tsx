@@ -0,0 +1,31 @@
+import type { Metadata } from "next";
+import EmbedClock, { EmbedTheme } from "@/components/EmbedClock";
+import { parseComparisonCodes } from "@/lib/comparison";
+import { safeDecode } from "@/lib/parseInput";
+
+interface EmbedPageProps {
+  params: Promise<{ input: string }>;
+  searchParams: Promise<{ vs?: string | string[]; at?: string | string[]; theme?: string | string[] }>;
+}
+
+export const metadata: Metadata = {
+  title: "Timezone Baby",
+  robots: { index: false },
+};
+
+// /embed/trnow?vs=us,jp&theme=dark - same grammar as the main route, framed for iframes
+export default async function EmbedPage({ params, searchParams }: EmbedPageProps) {
+  const { input } = await params;
+  const { vs, at, theme } = await searchParams;
+  const embedTheme: EmbedTheme = theme === "dark" ? "dark" : "light";
+
+  return (
+    <EmbedClock
+      input={safeDecode(input)}
+      comparisonCodes={parseComparisonCodes(vs)}
+      at={typeof at === "string" ? at : null}
+      theme={embedTheme}
+      renderedAt={Date.now()}
+    />
+  );
+}
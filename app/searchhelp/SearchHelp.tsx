@@ -0,0 +1,191 @@
+"use client";
+
+import React from "react";
+import Link from "next/link";
+import {
+  ThemeProvider,
+  Container,
+  Box,
+  Typography,
+  Paper,
+  Chip,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+} from "@mui/material";
+
+import CodeCatalog from "@/components/CodeCatalog";
+import ConversionForm from "@/components/ConversionForm";
+import type { CatalogEntry } from "@/lib/codeCatalog";
+import { darkTheme } from "@/lib/theme";
+
+interface SearchHelpProps {
+  catalog: CatalogEntry[];
+  renderedAt: number;
+}
+
+interface SyntaxRow {
+  kind: string;
+  /** Full example routes, without the leading slash */
+  examples: string[];
+  notes: string;
+}
+
+const ZONE_SYNTAX: SyntaxRow[] = [
+  {
+    kind: "Country",
+    examples: ["tr1330", "de2pm", "jpnow"],
+    notes: "Two-letter ISO code. Countries with several zones use the capital's.",
+  },
+  {
+    kind: "Country and city",
+    examples: ["us-la1330", "us-ny0900", "au-perth1800"],
+    notes: "Picks one zone of a multi-zone country by city name or initials.",
+  },
+  {
+    kind: "Abbreviation",
+    examples: ["pst1330", "cet-dst1330", "ist-ie0900"],
+    notes: "A fixed offset by default; add -dst to follow daylight saving, or a region key when the abbreviation is ambiguous.",
+  },
+  {
+    kind: "UTC offset",
+    examples: ["utc+0530_1330", "gmt-3_0900"],
+    notes: "Codes ending in a digit take a _ before the time.",
+  },
+  {
+    kind: "IANA zone or city",
+    examples: ["europe-berlin1330", "new_york9am", "tokyonoon"],
+    notes: "The full zone id with / as -, or just its city part.",
+  },
+];
+
+const TIME_SYNTAX: SyntaxRow[] = [
+  { kind: "24-hour", examples: ["tr1330", "tr13:30"], notes: "HHMM or HH:MM." },
+  { kind: "12-hour", examples: ["tr2pm", "tr9:30am"], notes: "12am is midnight, 12pm is noon." },
+  { kind: "Named", examples: ["trnoon", "trmidnight"], notes: "noon, midday and midnight." },
+  { kind: "Live", examples: ["trnow", "trnow+2h", "jst+1h30m"], notes: "The current time, optionally shifted by hours and minutes." },
+];
+
+const EXTRA_SYNTAX: SyntaxRow[] = [
+  {
+    kind: "Date",
+    examples: ["tr1330@20261103", "tr1330-2026-11-03"],
+    notes: "Pins a calendar day; clock times only. Without one, today in the source zone is used.",
+  },
+  {
+    kind: "Convert to",
+    examples: ["jst1500-to-tr", "jst1500-to-tr,us-ny"],
+    notes: "Names the zones the time should be read in; > works as well as -to-.",
+  },
+  {
+    kind: "Comparison rows",
+    examples: ["tr1330?vs=us,jp,cet-dst"],
+    notes: "?vs= lists the rows of the comparison table, using any of the zone codes above.",
+  },
+  {
+    kind: "Repeated hour",
+    examples: ["us0130@20261101?at=later"],
+    notes: "?at=earlier or ?at=later picks a side when clocks go back and a time happens twice.",
+  },
+];
+
+const ENDPOINTS: { path: string; notes: string }[] = [
+  { path: "/api/convert?q=tr1330&to=us,jp", notes: "The same conversion as JSON." },
+  { path: "/tr1330/ics?title=Standup&duration=30", notes: "An .ics calendar event." },
+  { path: "/embed/trnow?vs=us,jp&theme=dark", notes: "The clock alone, for iframes." },
+];
+
+const SyntaxTable: React.FC<{ title: string; rows: SyntaxRow[] }> = ({ title, rows }) => (
+  <Paper sx={{ p: 3, borderRadius: 2 }}>
+    <Typography variant="h6" component="h2" color="text.primary" fontWeight={600} sx={{ mb: 1 }}>
+      {title}
+    </Typography>
+    <Table size="small">
+      <TableHead>
+        <TableRow>
+          <TableCell>Kind</TableCell>
+          <TableCell>Examples</TableCell>
+          <TableCell>Notes</TableCell>
+        </TableRow>
+      </TableHead>
+      <TableBody>
+        {rows.map((row) => (
+          <TableRow key={row.kind}>
+            <TableCell sx={{ fontWeight: 600, whiteSpace: "nowrap" }}>{row.kind}</TableCell>
+            <TableCell>
+              <Box sx={{ display: "flex", gap: 1, flexWrap: "wrap" }}>
+                {row.examples.map((example) => (
+                  <Chip
+                    key={example}
+                    component={Link}
+                    href={`/${example}`}
+                    clickable
+                    label={`/${example}`}
+                    size="small"
+                    variant="outlined"
+                    sx={{ fontFamily: "monospace" }}
+                  />
+                ))}
+              </Box>
+            </TableCell>
+            <TableCell sx={{ color: "text.secondary" }}>{row.notes}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  </Paper>
+);
+
+export default function SearchHelp({ catalog, renderedAt }: SearchHelpProps) {
+  return (
+    <ThemeProvider theme={darkTheme}>
+      <Box sx={{ minHeight: "100vh", background: "linear-gradient(135deg, #121212 0%, #000000 100%)", py: 6 }}>
+        <Container maxWidth="md" sx={{ display: "flex", flexDirection: "column", gap: 3 }}>
+          <Box>
+            <Typography variant="h1" component="h1" color="text.primary" sx={{ fontSize: { xs: "2rem", md: "2.5rem" }, mb: 2 }}>
+              Codes & URL syntax
+            </Typography>
+            <Typography variant="body1" color="text.secondary">
+              Every page is a link: a zone code, a time, and optionally a date and target zones, as in{" "}
+              <Box component="code" sx={{ color: "text.primary" }}>
+                /&lt;zone&gt;&lt;time&gt;[@date][-to-&lt;zones&gt;]
+              </Box>
+              . Codes are case-insensitive. <Link href="/" style={{ color: "inherit" }}>Back to the converter</Link>.
+            </Typography>
+          </Box>
+
+          <SyntaxTable title="Zones" rows={ZONE_SYNTAX} />
+          <SyntaxTable title="Times" rows={TIME_SYNTAX} />
+          <SyntaxTable title="Dates, targets and options" rows={EXTRA_SYNTAX} />
+
+          <Paper sx={{ p: 3, borderRadius: 2 }}>
+            <Typography variant="h6" component="h2" color="text.primary" fontWeight={600} sx={{ mb: 1 }}>
+              Other formats
+            </Typography>
+            {ENDPOINTS.map((endpoint) => (
+              <Box key={endpoint.path} sx={{ display: "flex", gap: 2, py: 0.5, flexWrap: "wrap" }}>
+                <Box component="code" sx={{ color: "primary.light" }}>
+                  {endpoint.path}
+                </Box>
+                <Typography variant="body2" color="text.secondary">
+                  {endpoint.notes}
+                </Typography>
+              </Box>
+            ))}
+          </Paper>
+
+          <Paper sx={{ p: 4, borderRadius: 2, boxShadow: "0 8px 32px rgba(0,0,0,0.3)" }}>
+            <Typography variant="h6" component="h2" color="text.primary" fontWeight={600} sx={{ mb: 2 }}>
+              Try it
+            </Typography>
+            <ConversionForm />
+          </Paper>
+
+          <CodeCatalog entries={catalog} renderedAt={renderedAt} />
+        </Container>
+      </Box>
+    </ThemeProvider>
+  );
+}
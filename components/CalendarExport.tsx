@@ -0,0 +1,110 @@
+'use client';
+
+import React, { useState } from 'react';
+import { DateTime } from 'luxon';
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  MenuItem,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { CalendarDaysIcon } from '@heroicons/react/24/outline';
+import { buildIcsCalendar, DEFAULT_EVENT_DURATION, DEFAULT_EVENT_TITLE } from '@/lib/ics';
+import { MEETING_DURATIONS } from '@/lib/meetingPlanner';
+
+export interface CalendarExportProps {
+  /** Event start, in the zone the event should be written in */
+  start: DateTime;
+  /** File name of the download, e.g. "tr1330.ics" */
+  fileName: string;
+  /** Direct link to the same file, given the chosen title and duration */
+  getIcsHref: (title: string, durationMinutes: number) => string;
+}
+
+const CalendarExport: React.FC<CalendarExportProps> = ({ start, fileName, getIcsHref }) => {
+  const [open, setOpen] = useState(false);
+  const [title, setTitle] = useState(DEFAULT_EVENT_TITLE);
+  const [duration, setDuration] = useState(DEFAULT_EVENT_DURATION);
+  const [copied, setCopied] = useState(false);
+
+  const eventTitle = title.trim() || DEFAULT_EVENT_TITLE;
+  const icsHref = getIcsHref(eventTitle, duration);
+
+  const handleDownload = () => {
+    const body = buildIcsCalendar({
+      start,
+      durationMinutes: duration,
+      title: eventTitle,
+      description: `Converted with Timezone Baby: ${window.location.href}`,
+      url: window.location.href,
+    });
+    const blob = new Blob([body], { type: 'text/calendar' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+    setOpen(false);
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(new URL(icsHref, window.location.origin).toString());
+      setCopied(true);
+    } catch (err) {
+      console.warn('Could not copy the calendar link:', err);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="outlined"
+        size="small"
+        startIcon={<CalendarDaysIcon className="w-4 h-4" />}
+        onClick={() => {
+          setCopied(false);
+          setOpen(true);
+        }}
+        sx={{ borderRadius: 2 }}
+      >
+        Add to calendar
+      </Button>
+      <Dialog open={open} onClose={() => setOpen(false)} fullWidth maxWidth="xs">
+        <DialogTitle>Add to calendar</DialogTitle>
+        <DialogContent sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: '8px !important' }}>
+          <TextField label="Title" size="small" value={title} onChange={(e) => setTitle(e.target.value)} />
+          <TextField
+            select
+            label="Duration"
+            size="small"
+            value={duration}
+            onChange={(e) => setDuration(Number(e.target.value))}
+          >
+            {MEETING_DURATIONS.map((option) => (
+              <MenuItem key={option.minutes} value={option.minutes}>
+                {option.label}
+              </MenuItem>
+            ))}
+          </TextField>
+          <Typography variant="body2" color="text.secondary">
+            {start.toFormat('cccc, d LLLL yyyy HH:mm', { locale: 'en-US' })}–{start.plus({ minutes: duration }).toFormat('HH:mm')} ({start.zoneName})
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleCopyLink}>{copied ? 'Link copied' : 'Copy link'}</Button>
+          <Button variant="contained" onClick={handleDownload}>
+            Download .ics
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+};
+
+export default CalendarExport;
@@ -0,0 +1,210 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { DateTime } from 'luxon';
+import * as Flags from 'country-flag-icons/react/3x2';
+import {
+  Box,
+  Chip,
+  IconButton,
+  InputAdornment,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { ClipboardDocumentIcon, GlobeAltIcon, MagnifyingGlassIcon } from '@heroicons/react/24/outline';
+import { CATALOG_REGIONS, CatalogEntry } from '@/lib/codeCatalog';
+import { formatRoute } from '@/lib/parseInput';
+
+export interface CodeCatalogProps {
+  entries: CatalogEntry[];
+  /** Server render time, so the first client render shows the same clocks */
+  renderedAt: number;
+}
+
+type FlagComponent = React.ComponentType<{ className?: string; title?: string }>;
+
+const KIND_LABELS: Record<CatalogEntry['kind'], string> = {
+  country: 'Country',
+  city: 'City',
+  abbreviation: 'Abbreviation',
+};
+
+// Clocks show minutes, so there is no need to re-render hundreds of rows every second
+const TICK_MS = 10_000;
+
+const EXAMPLE_TIME = { kind: 'clock' as const, hour: 13, minute: 30 };
+
+const normalize = (value: string) =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+
+const getSearchText = (entry: CatalogEntry) =>
+  normalize(
+    [entry.code, entry.name, entry.timezone, entry.region, KIND_LABELS[entry.kind], entry.followDst?.code, entry.followDst?.timezone]
+      .filter(Boolean)
+      .join(' ')
+  );
+
+/** Every accepted code, grouped by region, with a filter, live clocks and copyable example links */
+const CodeCatalog: React.FC<CodeCatalogProps> = ({ entries, renderedAt }) => {
+  const [filter, setFilter] = useState('');
+  const [now, setNow] = useState(() => DateTime.fromMillis(renderedAt));
+  const [copiedCode, setCopiedCode] = useState<string | null>(null);
+
+  useEffect(() => {
+    // The page may have been rendered at build time, so catch up once before the first tick
+    setNow(DateTime.now());
+    const interval = setInterval(() => setNow(DateTime.now()), TICK_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const searchable = useMemo(() => entries.map((entry) => ({ entry, text: getSearchText(entry) })), [entries]);
+
+  const groups = useMemo(() => {
+    const needle = normalize(filter.trim());
+    const matches = searchable.filter(({ text }) => !needle || text.includes(needle)).map(({ entry }) => entry);
+    return CATALOG_REGIONS.map((region) => ({
+      region,
+      entries: matches
+        .filter((entry) => entry.region === region)
+        .sort((a, b) => a.name.localeCompare(b.name) || a.code.localeCompare(b.code)),
+    })).filter((group) => group.entries.length > 0);
+  }, [searchable, filter]);
+
+  const handleCopy = async (path: string, code: string) => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}${path}`);
+      setCopiedCode(code);
+    } catch (err) {
+      console.warn('Could not copy the example link:', err);
+    }
+  };
+
+  const matchCount = groups.reduce((sum, group) => sum + group.entries.length, 0);
+
+  return (
+    <Paper sx={{ p: 3, borderRadius: 2 }}>
+      <Typography variant="h6" component="h2" color="text.primary" fontWeight={600} sx={{ mb: 1 }}>
+        All codes
+      </Typography>
+      <TextField
+        placeholder="Filter by country, code, zone or region (e.g. germany, pst, europe/berlin, oceania)"
+        value={filter}
+        onChange={(e) => setFilter(e.target.value)}
+        fullWidth
+        size="small"
+        sx={{ mb: 1 }}
+        slotProps={{
+          input: {
+            startAdornment: (
+              <InputAdornment position="start">
+                <MagnifyingGlassIcon className="w-5 h-5" />
+              </InputAdornment>
+            ),
+          },
+        }}
+      />
+      <Typography variant="caption" color="text.secondary">
+        {matchCount} of {entries.length} codes
+      </Typography>
+
+      {groups.map((group) => (
+        <Box key={group.region} sx={{ mt: 3 }}>
+          <Typography variant="subtitle1" component="h3" color="primary.light" fontWeight={600}>
+            {group.region} ({group.entries.length})
+          </Typography>
+          <Box sx={{ overflowX: 'auto' }}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Code</TableCell>
+                  <TableCell>Name</TableCell>
+                  <TableCell>Zone</TableCell>
+                  <TableCell align="right">Now</TableCell>
+                  <TableCell>Example</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {group.entries.map((entry) => {
+                  const FlagComponent = entry.countryCode
+                    ? (Flags[entry.countryCode as keyof typeof Flags] as FlagComponent | undefined)
+                    : undefined;
+                  const example = formatRoute(entry.code, EXAMPLE_TIME);
+                  return (
+                    <TableRow key={entry.code} hover>
+                      <TableCell sx={{ fontFamily: 'monospace', fontWeight: 600, whiteSpace: 'nowrap' }}>{entry.code}</TableCell>
+                      <TableCell>
+                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                          <Box sx={{ width: 24, height: 16, flexShrink: 0 }}>
+                            {FlagComponent ? <FlagComponent className="w-6 h-4" /> : <GlobeAltIcon className="w-6 h-4 text-blue-500" />}
+                          </Box>
+                          <Box>
+                            <Typography variant="body2" color="text.primary">
+                              {entry.name}
+                            </Typography>
+                            <Typography variant="caption" color="text.secondary">
+                              {KIND_LABELS[entry.kind]}
+                            </Typography>
+                          </Box>
+                        </Box>
+                      </TableCell>
+                      <TableCell>
+                        <Typography variant="body2" color="text.secondary" sx={{ fontFamily: 'monospace' }}>
+                          {entry.timezone}
+                        </Typography>
+                        {entry.followDst && (
+                          <Typography variant="caption" color="text.secondary">
+                            {entry.followDst.code} follows {entry.followDst.timezone}
+                          </Typography>
+                        )}
+                      </TableCell>
+                      <TableCell align="right" sx={{ fontFamily: 'monospace', fontWeight: 600 }} suppressHydrationWarning>
+                        {now.setZone(entry.timezone).toFormat('HH:mm')}
+                      </TableCell>
+                      <TableCell>
+                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                          <Chip
+                            component={Link}
+                            href={example}
+                            prefetch={false} // Hundreds of rows; don't prefetch every example route
+                            clickable
+                            label={example}
+                            size="small"
+                            variant="outlined"
+                            sx={{ fontFamily: 'monospace' }}
+                          />
+                          <Tooltip title={copiedCode === entry.code ? 'Copied' : 'Copy link'}>
+                            <IconButton size="small" onClick={() => handleCopy(example, entry.code)} aria-label={`Copy ${example}`}>
+                              <ClipboardDocumentIcon className="w-4 h-4" />
+                            </IconButton>
+                          </Tooltip>
+                        </Box>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </Box>
+        </Box>
+      ))}
+      {groups.length === 0 && (
+        <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+          No code matches “{filter}”. Offsets such as utc+0530 and full zone ids such as europe-berlin work too.
+        </Typography>
+      )}
+    </Paper>
+  );
+};
+
+export default CodeCatalog;
@@ -0,0 +1,335 @@
+'use client';
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import { DateTime } from 'luxon';
+import * as Flags from 'country-flag-icons/react/3x2';
+import {
+  Box,
+  Dialog,
+  InputAdornment,
+  List,
+  ListItemButton,
+  ListItemIcon,
+  ListItemText,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { ArrowRightIcon, MagnifyingGlassIcon, PlusIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { formatComparisonQuery, parseComparisonCodes } from '@/lib/comparison';
+import { resolveConversion } from '@/lib/convert';
+import { searchCountries } from '@/lib/countrySearch';
+import { formatTimeToken, parseTimeExpression } from '@/lib/parseTime';
+import { formatDayShift, getDayShift, getTimeZoneFromCode } from '@/lib/timezones';
+
+/** Actions a page offers while it is mounted */
+export interface PaletteActions {
+  addComparison?: (code: string) => void;
+  clearComparisons?: () => void;
+}
+
+interface PaletteItem {
+  id: string;
+  icon: React.ReactNode;
+  primary: string;
+  secondary?: string;
+  run: () => void;
+}
+
+type FlagComponent = React.ComponentType<{ className?: string; title?: string }>;
+
+const PaletteContext = createContext<(actions: PaletteActions | null) => void>(() => {});
+
+const MAX_COUNTRY_MATCHES = 4;
+
+/** Register actions for the palette while the calling component is mounted */
+export function usePaletteActions(actions: PaletteActions) {
+  const register = useContext(PaletteContext);
+  useEffect(() => {
+    register(actions);
+    return () => register(null);
+  }, [register, actions]);
+}
+
+const normalizeName = (value: string) =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim();
+
+/** "germany 2pm" -> { name: "germany", timeToken: "1400" }; the time is optional */
+function splitNameAndTime(query: string): { name: string; timeToken: string | null } {
+  const words = query.trim().split(/\s+/);
+  if (words.length > 1) {
+    const time = parseTimeExpression(words[words.length - 1]);
+    if (time) return { name: words.slice(0, -1).join(' '), timeToken: formatTimeToken(time) };
+  }
+  return { name: query.trim(), timeToken: null };
+}
+
+function findCountriesByName(name: string) {
+  if (normalizeName(name).length < 2) return [];
+  return searchCountries(name, MAX_COUNTRY_MATCHES);
+}
+
+/** "13:30 in Türkiye · 12:30 your time" */
+function describePreview(routeInput: string, now: DateTime): string {
+  const result = resolveConversion(routeInput, { now });
+  if (!result.ok) return result.error.message;
+  const { baseTime, parsed } = result.conversion;
+  const local = baseTime.toLocal();
+  const shift = formatDayShift(getDayShift(baseTime, local));
+  return `${baseTime.toFormat('HH:mm')} in ${parsed.zoneInfo.displayName} (${parsed.zoneInfo.timezone}) · ${local.toFormat('HH:mm')}${shift ? ` (${shift})` : ''} your time`;
+}
+
+/** ⌘K / Ctrl+K palette for jumping to any zone and time, mounted once in the root layout */
+const CommandPalette: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const router = useRouter();
+  // The embed widget lives in other sites' iframes; a palette there could navigate the frame away
+  const disabled = usePathname().startsWith('/embed');
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState(0);
+  const [actions, setActions] = useState<PaletteActions | null>(null);
+  // Ticks once a second while open so live previews stay current
+  const [now, setNow] = useState(() => DateTime.now());
+
+  const register = useCallback((next: PaletteActions | null) => setActions(next), []);
+
+  useEffect(() => {
+    if (disabled) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setOpen((prev) => !prev);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [disabled]);
+
+  useEffect(() => {
+    if (!open) return;
+    setNow(DateTime.now());
+    const interval = setInterval(() => setNow(DateTime.now()), 1000);
+    return () => clearInterval(interval);
+  }, [open]);
+
+  const close = () => {
+    setOpen(false);
+    setQuery('');
+    setSelected(0);
+  };
+
+  // Keep the comparison list when jumping from one conversion to another
+  const navigate = useCallback(
+    (routeInput: string) => {
+      // Re-encoded the way the page writes it, so "utc+0530" doesn't come back as a space
+      const codes = parseComparisonCodes(new URLSearchParams(window.location.search).get('vs') || '');
+      router.push(`/${encodeURIComponent(routeInput.toLowerCase())}${formatComparisonQuery(codes.map((code) => ({ code })))}`);
+    },
+    [router]
+  );
+
+  const items = useMemo<PaletteItem[]>(() => {
+    const result: PaletteItem[] = [];
+    const compact = query.replace(/\s+/g, '');
+
+    // "add jp" / "add germany": only the comparison action, for the code or the matching countries
+    const addMatch = query.trim().match(/^add\s+(.+)$/i);
+    if (addMatch && actions?.addComparison) {
+      const add = actions.addComparison;
+      const addCode = addMatch[1].replace(/\s+/g, '').toLowerCase();
+      const addZone = getTimeZoneFromCode(addCode);
+      if (addZone) {
+        result.push({
+          id: `add-${addCode}`,
+          icon: <PlusIcon className="w-5 h-5" />,
+          primary: `Add ${addZone.displayName} to comparison`,
+          secondary: addZone.timezone,
+          run: () => add(addCode),
+        });
+      }
+      for (const country of findCountriesByName(addMatch[1])) {
+        const code = country.cca2.toLowerCase();
+        if (addZone && addCode === code) continue;
+        result.push({
+          id: `add-country-${code}`,
+          icon: <PlusIcon className="w-5 h-5" />,
+          primary: `Add ${country.name} to comparison`,
+          run: () => add(code),
+        });
+      }
+      return result;
+    }
+
+    const conversion = compact.length >= 3 ? resolveConversion(compact, { now }) : null;
+    if (conversion && (conversion.ok || conversion.error.code !== 'unrecognized')) {
+      result.push({
+        id: `go-${compact}`,
+        icon: <ArrowRightIcon className="w-5 h-5" />,
+        primary: `Go to /${compact.toLowerCase()}`,
+        secondary: describePreview(compact, now),
+        run: () => navigate(compact),
+      });
+    }
+
+    // A bare code ("jp", "pst-dst", "tokyo") opens its current time or joins the comparison
+    const zone = compact.length >= 2 ? getTimeZoneFromCode(compact) : null;
+    if (zone) {
+      result.push({
+        id: `now-${compact}`,
+        icon: zone.flagComponent,
+        primary: `${zone.displayName} now`,
+        secondary: describePreview(`${compact}now`, now),
+        run: () => navigate(`${compact}now`),
+      });
+      if (actions?.addComparison) {
+        const add = actions.addComparison;
+        result.push({
+          id: `add-${compact}`,
+          icon: <PlusIcon className="w-5 h-5" />,
+          primary: `Add ${zone.displayName} to comparison`,
+          secondary: zone.timezone,
+          run: () => add(compact.toLowerCase()),
+        });
+      }
+    }
+
+    const { name, timeToken } = splitNameAndTime(query);
+    for (const country of findCountriesByName(name)) {
+      const code = country.cca2.toLowerCase();
+      if (zone && compact.toLowerCase() === code) continue;
+      const FlagComponent = Flags[country.cca2 as keyof typeof Flags] as FlagComponent | undefined;
+      const routeInput = `${code}${timeToken || 'now'}`;
+      result.push({
+        id: `country-${code}`,
+        icon: FlagComponent ? <FlagComponent className="w-6 h-4" /> : <ArrowRightIcon className="w-5 h-5" />,
+        primary: `${country.name}${country.matchedAlias ? ` (${country.matchedAlias})` : ''}${timeToken ? ` at ${timeToken}` : ' now'}`,
+        secondary: describePreview(routeInput, now),
+        run: () => navigate(routeInput),
+      });
+      if (actions?.addComparison) {
+        const add = actions.addComparison;
+        result.push({
+          id: `add-country-${code}`,
+          icon: <PlusIcon className="w-5 h-5" />,
+          primary: `Add ${country.name} to comparison`,
+          run: () => add(code),
+        });
+      }
+    }
+
+    if (actions?.clearComparisons && (!query || 'clear all comparisons'.includes(normalizeName(query)))) {
+      const clear = actions.clearComparisons;
+      result.push({
+        id: 'clear',
+        icon: <XMarkIcon className="w-5 h-5" />,
+        primary: 'Clear all comparisons',
+        run: clear,
+      });
+    }
+    if (!query || 'search help codes'.includes(normalizeName(query))) {
+      result.push({
+        id: 'help',
+        icon: <MagnifyingGlassIcon className="w-5 h-5" />,
+        primary: 'Search help & country codes',
+        run: () => router.push('/searchhelp'),
+      });
+    }
+
+    return result;
+  }, [query, actions, navigate, router, now]);
+
+  const activeIndex = Math.min(selected, Math.max(items.length - 1, 0));
+
+  const runItem = (item: PaletteItem | undefined) => {
+    if (!item) return;
+    item.run();
+    close();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setSelected((activeIndex + 1) % Math.max(items.length, 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setSelected((activeIndex - 1 + items.length) % Math.max(items.length, 1));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      runItem(items[activeIndex]);
+    }
+  };
+
+  if (disabled) {
+    return <PaletteContext.Provider value={register}>{children}</PaletteContext.Provider>;
+  }
+
+  return (
+    <PaletteContext.Provider value={register}>
+      {children}
+      <Dialog
+        open={open}
+        onClose={close}
+        fullWidth
+        maxWidth="sm"
+        slotProps={{ paper: { sx: { position: 'fixed', top: '12vh', m: 0, borderRadius: 3 } } }}
+      >
+        <Box sx={{ p: 2, pb: 1 }}>
+          <TextField
+            autoFocus
+            fullWidth
+            size="small"
+            placeholder={actions?.addComparison ? 'tr1330, jstnow, germany 2pm, add jp, clear…' : 'tr1330, jstnow, germany 2pm, help…'}
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setSelected(0);
+            }}
+            onKeyDown={handleKeyDown}
+            slotProps={{
+              input: {
+                startAdornment: (
+                  <InputAdornment position="start">
+                    <MagnifyingGlassIcon className="w-5 h-5" />
+                  </InputAdornment>
+                ),
+              },
+            }}
+          />
+        </Box>
+        <List dense sx={{ maxHeight: 400, overflow: 'auto', pt: 0 }}>
+          {items.map((item, index) => (
+            <ListItemButton
+              key={item.id}
+              selected={index === activeIndex}
+              onMouseEnter={() => setSelected(index)}
+              onClick={() => runItem(item)}
+              sx={{ mx: 1, borderRadius: 2 }}
+            >
+              <ListItemIcon sx={{ minWidth: 40 }}>{item.icon}</ListItemIcon>
+              <ListItemText
+                primary={item.primary}
+                secondary={item.secondary}
+                primaryTypographyProps={{ fontWeight: 500 }}
+                secondaryTypographyProps={{ noWrap: true }}
+              />
+            </ListItemButton>
+          ))}
+          {items.length === 0 && (
+            <Typography variant="body2" color="text.secondary" sx={{ px: 3, py: 2 }}>
+              Nothing matches “{query}”. Try a code like tr1330 or a country name.
+            </Typography>
+          )}
+        </List>
+        <Typography variant="caption" color="text.secondary" sx={{ px: 3, pb: 1.5 }}>
+          ↑↓ to move · Enter to open · Esc to close
+        </Typography>
+      </Dialog>
+    </PaletteContext.Provider>
+  );
+};
+
+export default CommandPalette;
@@ -0,0 +1,297 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import countriesData from 'world-countries';
+import { CheckCircle as CheckCircleIcon } from '@mui/icons-material';
+import {
+  Alert,
+  Box,
+  Button,
+  FormControl,
+  FormControlLabel,
+  FormLabel,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  Paper,
+  Radio,
+  RadioGroup,
+  TextField,
+} from '@mui/material';
+import { ConversionErrorCode, resolveConversion } from '@/lib/convert';
+import { useBrowserTimeZone } from '@/lib/browserZone';
+import { searchCountries } from '@/lib/countrySearch';
+import { DatePart, formatRoute, safeDecode } from '@/lib/parseInput';
+import { parseTimeExpression, TimeSpec } from '@/lib/parseTime';
+import { getTimeZoneFromCode, getZoneCityName, getZoneRouteCode } from '@/lib/timezones';
+
+export interface ConversionFormProps {
+  /** Appended to the route, e.g. "?vs=us,jp", so the comparison list survives */
+  query?: string;
+  submitLabel?: string;
+  /** Shows a Cancel button next to the submit button */
+  onCancel?: () => void;
+}
+
+type TimeMode = 'now' | 'custom';
+
+interface CountryItem {
+  code: string;
+  name: string;
+  /** The spelling the search matched, when it isn't the name shown ("Deutschland") */
+  matchedAlias?: string | null;
+}
+
+const NOW: TimeSpec = { kind: 'now', offsetMinutes: 0 };
+
+// Skipped and repeated times still navigate: the result page explains them and offers both readings
+const BLOCKING_ERRORS: ConversionErrorCode[] = ['too_short', 'unrecognized', 'invalid_date', 'invalid_time'];
+
+const ALL_COUNTRIES: CountryItem[] = countriesData.map((c) => ({
+  code: c.cca2.toUpperCase(),
+  name: c.name.common,
+}));
+
+/** "2026-11-03" from a date input; null when empty or malformed */
+function parseDateInput(value: string): DatePart | null {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  return { year: parseInt(match[1], 10), month: parseInt(match[2], 10), day: parseInt(match[3], 10) };
+}
+
+/** Country search, time mode, optional date and validation, shared by the home, help and result pages */
+const ConversionForm: React.FC<ConversionFormProps> = ({ query = '', submitLabel = 'Go', onCancel }) => {
+  const router = useRouter();
+  const browserZone = useBrowserTimeZone();
+
+  const [search, setSearch] = useState('');
+  const [selectedCountry, setSelectedCountry] = useState<CountryItem | null>(null);
+  const [timeMode, setTimeMode] = useState<TimeMode>('custom');
+  const [time, setTime] = useState('');
+  const [date, setDate] = useState('');
+  const [error, setError] = useState('');
+
+  const filteredCountries = useMemo<CountryItem[]>(() => {
+    if (!search.trim()) return ALL_COUNTRIES;
+    return searchCountries(search).map((result) => ({
+      code: result.cca2,
+      name: result.name,
+      matchedAlias: result.matchedAlias,
+    }));
+  }, [search]);
+
+  /** A picked or exactly typed country (in any language), else any route code the text resolves as ("cet", "new_york") */
+  const getZoneCode = (): string | null => {
+    const typed = search.trim();
+    if (selectedCountry) return selectedCountry.code;
+    if (!typed) {
+      setError('Search for a country, or enter a code like TR, CET, PST or new_york.');
+      return null;
+    }
+
+    const [byName] = searchCountries(typed, 1);
+    if (byName?.exact) return byName.cca2;
+    if (getTimeZoneFromCode(typed)) return typed;
+
+    setError(`"${typed}" isn't a country or zone code. Pick a country from the list, or try TR, CET, PST or new_york.`);
+    return null;
+  };
+
+  /** The time and date the form asks for; an empty custom time reads as "now" only when allowed */
+  const getTimeAndDate = (emptyIsNow: boolean): { spec: TimeSpec; datePart: DatePart | null } | null => {
+    if (timeMode === 'now' || (emptyIsNow && !time.trim() && !date)) {
+      return { spec: NOW, datePart: null };
+    }
+
+    const spec = parseTimeExpression(time);
+    if (!spec) {
+      setError("Enter a time like 1330, 13:30, 2pm, 9:30am, noon or +2h, or choose 'now'.");
+      return null;
+    }
+
+    const datePart = parseDateInput(date);
+    if (date && !datePart) {
+      setError('Enter the date as YYYY-MM-DD.');
+      return null;
+    }
+    if (datePart && spec.kind === 'now') {
+      setError('A date only works with a clock time like 1330, not with an offset from now.');
+      return null;
+    }
+    return { spec, datePart };
+  };
+
+  const go = (code: string, spec: TimeSpec, datePart: DatePart | null) => {
+    const route = formatRoute(code, spec, datePart);
+    const result = resolveConversion(safeDecode(route.slice(1)));
+    if (!result.ok && BLOCKING_ERRORS.includes(result.error.code)) {
+      setError(result.error.message);
+      return;
+    }
+    router.push(`${route}${query}`);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const code = getZoneCode();
+    if (!code) return;
+    const timeAndDate = getTimeAndDate(false);
+    if (!timeAndDate) return;
+
+    go(code, timeAndDate.spec, timeAndDate.datePart);
+  };
+
+  // Skips the country search: converts the chosen time (or now, if none is typed) from the visitor's zone
+  const handleConvertFromMyZone = () => {
+    if (!browserZone) return;
+    setError('');
+
+    const timeAndDate = getTimeAndDate(true);
+    if (!timeAndDate) return;
+
+    go(getZoneRouteCode(browserZone), timeAndDate.spec, timeAndDate.datePart);
+  };
+
+  return (
+    <Box component="form" onSubmit={handleSubmit} noValidate sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
+      {error && (
+        <Alert severity="error" sx={{ borderRadius: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {/* Country Search */}
+      <Box>
+        <FormLabel sx={{ mb: 1, display: 'block', color: 'text.primary', fontWeight: 600 }}>
+          Search a Country or Enter a Code
+        </FormLabel>
+        <TextField
+          placeholder="Turkey, TR, CET, PST, new_york, utc+0530..."
+          value={search}
+          onChange={(e) => {
+            setSearch(e.target.value);
+            setSelectedCountry(null); // reset selected country if user changes search
+          }}
+          fullWidth
+          variant="outlined"
+          size="small"
+        />
+        {search && !selectedCountry && (
+          <Paper
+            variant="outlined"
+            sx={{
+              mt: 1,
+              maxHeight: 160,
+              overflow: 'auto',
+            }}
+          >
+            <List disablePadding>
+              {filteredCountries.length > 0 ? (
+                filteredCountries.map((item) => (
+                  <ListItem
+                    key={item.code}
+                    disablePadding
+                    onClick={() => {
+                      setSelectedCountry({ code: item.code, name: item.name });
+                      setSearch(item.name);
+                    }}
+                    sx={{
+                      px: 2,
+                      cursor: 'pointer',
+                      '&:hover': {
+                        bgcolor: 'action.hover',
+                      },
+                    }}
+                  >
+                    <ListItemText
+                      primary={`${item.name} (${item.code})`}
+                      secondary={item.matchedAlias ? `matches ${item.matchedAlias}` : undefined}
+                      primaryTypographyProps={{ fontWeight: 500 }}
+                    />
+                  </ListItem>
+                ))
+              ) : (
+                <ListItem sx={{ px: 2 }}>
+                  <ListItemText
+                    primary={
+                      getTimeZoneFromCode(search.trim())
+                        ? `No country matches; "${search.trim()}" will be read as a zone code.`
+                        : 'No matching countries found.'
+                    }
+                    sx={{ color: 'text.secondary' }}
+                  />
+                </ListItem>
+              )}
+            </List>
+          </Paper>
+        )}
+        {selectedCountry && (
+          <ListItem disablePadding sx={{ mt: 1, px: 2, py: 0.5, borderRadius: 2, bgcolor: 'primary.main', color: 'white' }}>
+            <ListItemText
+              primary={`${selectedCountry.name} (${selectedCountry.code})`}
+              primaryTypographyProps={{ fontWeight: 600 }}
+            />
+            <ListItemIcon sx={{ minWidth: 32, justifyContent: 'flex-end' }}>
+              <CheckCircleIcon sx={{ color: 'white', fontSize: 20 }} />
+            </ListItemIcon>
+          </ListItem>
+        )}
+      </Box>
+
+      {/* Time Mode */}
+      <FormControl>
+        <FormLabel sx={{ color: 'text.primary', fontWeight: 600 }}>Time Mode</FormLabel>
+        <RadioGroup value={timeMode} onChange={(e) => setTimeMode(e.target.value as TimeMode)} row sx={{ mt: 1 }}>
+          <FormControlLabel value="now" control={<Radio />} label="Now (Live)" />
+          <FormControlLabel value="custom" control={<Radio />} label="Custom Time" />
+        </RadioGroup>
+      </FormControl>
+
+      {timeMode === 'custom' && (
+        <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '3fr 2fr' }, gap: 2 }}>
+          <TextField
+            label="Time"
+            placeholder="e.g. 1330, 2pm, 9:30am, noon, +2h"
+            value={time}
+            onChange={(e) => setTime(e.target.value)}
+            variant="outlined"
+            size="small"
+            helperText="24-hour, 12-hour, noon/midnight, or an offset from now"
+          />
+          <TextField
+            label="Date"
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            variant="outlined"
+            size="small"
+            helperText="Optional; defaults to today"
+            slotProps={{ inputLabel: { shrink: true } }}
+          />
+        </Box>
+      )}
+
+      <Box sx={{ display: 'flex', gap: 2 }}>
+        <Button type="submit" variant="contained" fullWidth size="large">
+          {submitLabel}
+        </Button>
+        {onCancel && (
+          <Button type="button" onClick={onCancel} variant="outlined" fullWidth size="large">
+            Cancel
+          </Button>
+        )}
+      </Box>
+      {browserZone && (
+        <Button variant="outlined" fullWidth onClick={handleConvertFromMyZone}>
+          Convert from my zone ({getZoneCityName(browserZone)})
+        </Button>
+      )}
+    </Box>
+  );
+};
+
+export default ConversionForm;
@@ -2,7 +2,6 @@
 
 import React, { useState, useMemo } from 'react';
 import countriesData from 'world-countries';
-import moment from 'moment-timezone';
 import * as Flags from 'country-flag-icons/react/3x2'; // Fix: * as import
 import {
   Box,
@@ -24,13 +23,18 @@ import {
   ExpandLess,
   ExpandMore,
 } from '@mui/icons-material';
+import { searchCountries } from '@/lib/countrySearch';
+import { getCountryZones } from '@/lib/timezones';
 
 // FlagComponent type
 type FlagComponent = React.ComponentType<{ className?: string; title?: string }>;
 
 export interface Country {
   name: string;
+  /** Primary zone, the one used for a single converted time */
   timezone: string;
+  /** Every zone of the country, primary first */
+  timezones: string[];
   flag: string;
   code: string;
   flagComponent?: React.ReactNode;
@@ -63,12 +67,13 @@ const useGroupedCountries = () => {
       if (!grouped[region]) grouped[region] = [];
 
       const code = country.cca2;
-      const timezones = moment.tz.zonesForCountry(code);
-      const primaryTimezone = timezones && timezones.length > 0 ? timezones[0] : 'UTC';
+      const timezones = getCountryZones(code);
+      const primaryTimezone = timezones.length > 0 ? timezones[0] : 'UTC';
 
       grouped[region].push({
         name: country.name.common,
         timezone: primaryTimezone,
+        timezones: timezones.length > 0 ? timezones : ['UTC'],
         flag: code,
         code: code.toLowerCase(),
         flagComponent: getFlagComponent(code),
@@ -86,6 +91,12 @@ const useGroupedCountries = () => {
   }, []);
 };
 
+// "America/New_York" or "America/New_York + 28 more zones"
+const getZoneSummary = (country: Country) =>
+  country.timezones.length > 1
+    ? `${country.timezone} + ${country.timezones.length - 1} more zone${country.timezones.length > 2 ? 's' : ''}`
+    : country.timezone;
+
 const CountrySelector: React.FC<CountrySelectorProps> = ({ onSelectCountry }) => {
   const [search, setSearch] = useState('');
   const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set());
@@ -108,15 +119,15 @@ const CountrySelector: React.FC<CountrySelectorProps> = ({ onSelectCountry }) =>
     [groupedCountries]
   );
 
-  const filteredCountries = useMemo(
-    () =>
-      search
-        ? allCountries.filter((c) =>
-            c.name.toLowerCase().includes(search.toLowerCase())
-          )
-        : null,
-    [search, allCountries]
-  );
+  // Ranked matches across names, translations, capitals and codes; null shows the grouped list
+  const filteredCountries = useMemo(() => {
+    if (!search.trim()) return null;
+    const byCode = new Map(allCountries.map((c) => [c.code, c]));
+    return searchCountries(search).flatMap((result) => {
+      const country = byCode.get(result.cca2.toLowerCase());
+      return country ? [{ country, matchedAlias: result.matchedAlias }] : [];
+    });
+  }, [search, allCountries]);
 
   // Continent display names
   const getContinentDisplayName = (continent: string) => {
@@ -142,7 +153,7 @@ const CountrySelector: React.FC<CountrySelectorProps> = ({ onSelectCountry }) =>
         <TextField
           fullWidth
           variant="outlined"
-          placeholder="Search country..."
+          placeholder="Search country, capital or native name..."
           value={search}
           onChange={(e) => setSearch(e.target.value)}
           InputProps={{
@@ -159,7 +170,7 @@ const CountrySelector: React.FC<CountrySelectorProps> = ({ onSelectCountry }) =>
           <Box sx={{ maxHeight: 400, overflow: 'auto' }}>
             {filteredCountries.length > 0 ? (
               <List>
-                {filteredCountries.map((country) => (
+                {filteredCountries.map(({ country, matchedAlias }) => (
                   <ListItem key={country.code} disablePadding sx={{ mb: 1 }}>
                     <ListItemButton 
                       onClick={() => onSelectCountry(country)}
@@ -182,8 +193,8 @@ const CountrySelector: React.FC<CountrySelectorProps> = ({ onSelectCountry }) =>
                         </Box>
                       </ListItemIcon>
                       <ListItemText
-                        primary={country.name}
-                        secondary={country.timezone}
+                        primary={matchedAlias ? `${country.name} (${matchedAlias})` : country.name}
+                        secondary={getZoneSummary(country)}
                         primaryTypographyProps={{
                           fontWeight: 500,
                           color: 'text.primary'
@@ -276,7 +287,7 @@ const CountrySelector: React.FC<CountrySelectorProps> = ({ onSelectCountry }) =>
                           </ListItemIcon>
                           <ListItemText
                             primary={country.name}
-                            secondary={country.timezone}
+                            secondary={getZoneSummary(country)}
                             primaryTypographyProps={{
                               fontWeight: 500,
                               color: 'text.primary'
@@ -0,0 +1,134 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { DateTime } from 'luxon';
+import { Box, Card, CardContent, CardHeader, Tooltip, Typography } from '@mui/material';
+import {
+  describeTransition,
+  getNextTransition,
+  getOffsetSegments,
+  getPreviousTransition,
+  OffsetTransition,
+} from '@/lib/dst';
+import { formatUtcOffset } from '@/lib/timezones';
+
+export interface DstTimelineProps {
+  /** Start of the timeline; the previous/next transitions are relative to it */
+  from: DateTime;
+  /** Base zone first, then every comparison row; pass a memoised array, a new one rescans every zone */
+  zones: { label: string; timezone: string }[];
+}
+
+const DST_COLOR = '#fbbc04';
+const STANDARD_COLOR = '#e8f0fe';
+
+const TransitionLine: React.FC<{ label: string; transition: OffsetTransition | null }> = ({ label, transition }) => (
+  <Typography variant="caption" color="text.secondary" component="div">
+    <Box component="span" sx={{ fontWeight: 600 }}>{label}:</Box>{' '}
+    {transition
+      ? `${transition.at.toFormat('ccc, d LLL yyyy HH:mm', { locale: 'en-US' })} · ${formatUtcOffset(transition.offsetBefore)} → ${formatUtcOffset(transition.offsetAfter)} (${describeTransition(transition)})`
+      : 'none within a year'}
+  </Typography>
+);
+
+const DstTimeline: React.FC<DstTimelineProps> = ({ from, zones }) => {
+  // Scanning a year per zone is too slow to redo on every live tick, so anchor to the hour
+  const anchorMillis = from.startOf('hour').toMillis();
+  // Month ticks are laid out in the base zone, not the machine's, so server and browser draw the same axis
+  const zoneName = from.zoneName || 'UTC';
+
+  const rows = useMemo(() => {
+    const anchor = DateTime.fromMillis(anchorMillis, { zone: zoneName });
+    const end = anchor.plus({ years: 1 });
+    return zones.map(({ label, timezone }) => ({
+      label,
+      timezone,
+      previous: getPreviousTransition(timezone, anchor),
+      next: getNextTransition(timezone, anchor),
+      segments: getOffsetSegments(timezone, anchor, end),
+    }));
+  }, [anchorMillis, zoneName, zones]);
+
+  const start = DateTime.fromMillis(anchorMillis, { zone: zoneName });
+  const totalMillis = start.plus({ years: 1 }).toMillis() - anchorMillis;
+  const months = Array.from({ length: 12 }, (_, i) => start.startOf('month').plus({ months: i + 1 }));
+
+  return (
+    <Card>
+      <CardHeader
+        title="Daylight Saving"
+        subheader="Offset changes over the coming year. Shaded stretches are summer time."
+        titleTypographyProps={{ variant: 'h6', color: 'text.primary', fontWeight: 600 }}
+      />
+      <CardContent sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
+        {rows.map((row, rowIndex) => (
+          <Box key={`${row.timezone}-${rowIndex}`}>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', gap: 2, mb: 0.5 }}>
+              <Typography variant="body2" color="text.primary" fontWeight={rowIndex === 0 ? 600 : 500} noWrap>
+                {row.label}
+              </Typography>
+              <Typography variant="caption" color="text.secondary">
+                {row.timezone}
+              </Typography>
+            </Box>
+
+            <Box sx={{ position: 'relative', display: 'flex', height: 20, borderRadius: 1, overflow: 'hidden', border: '1px solid', borderColor: 'divider' }}>
+              {row.segments.map((segment) => (
+                <Tooltip
+                  key={segment.start.toMillis()}
+                  title={`${segment.start.toFormat('d LLL yyyy', { locale: 'en-US' })} – ${segment.end.toFormat('d LLL yyyy', { locale: 'en-US' })}: ${formatUtcOffset(segment.offset)}`}
+                >
+                  <Box
+                    sx={{
+                      width: `${((segment.end.toMillis() - segment.start.toMillis()) / totalMillis) * 100}%`,
+                      bgcolor: segment.isDst ? DST_COLOR : STANDARD_COLOR,
+                      display: 'flex',
+                      alignItems: 'center',
+                      justifyContent: 'center',
+                      overflow: 'hidden',
+                    }}
+                  >
+                    <Typography variant="caption" sx={{ fontSize: '0.65rem', fontFamily: 'monospace' }} noWrap>
+                      {formatUtcOffset(segment.offset)}
+                    </Typography>
+                  </Box>
+                </Tooltip>
+              ))}
+            </Box>
+
+            <Box sx={{ position: 'relative', height: 16 }}>
+              {months.map((month) => (
+                <Typography
+                  key={month.toMillis()}
+                  variant="caption"
+                  color="text.secondary"
+                  sx={{
+                    position: 'absolute',
+                    left: `${((month.toMillis() - anchorMillis) / totalMillis) * 100}%`,
+                    fontSize: '0.6rem',
+                    transform: 'translateX(-50%)',
+                  }}
+                >
+                  {month.toFormat('LLL', { locale: 'en-US' })}
+                </Typography>
+              ))}
+            </Box>
+
+            {row.previous || row.next ? (
+              <Box sx={{ mt: 0.5 }}>
+                <TransitionLine label="Previous" transition={row.previous} />
+                <TransitionLine label="Next" transition={row.next} />
+              </Box>
+            ) : (
+              <Typography variant="caption" color="text.secondary" component="div" sx={{ mt: 0.5 }}>
+                No clock changes · always {formatUtcOffset(row.segments[0].offset)}
+              </Typography>
+            )}
+          </Box>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DstTimeline;
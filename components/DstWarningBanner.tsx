@@ -0,0 +1,41 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { DateTime } from 'luxon';
+import { Alert, AlertTitle, Box } from '@mui/material';
+import { describeTransition, getUpcomingTransitions } from '@/lib/dst';
+import { formatUtcOffset } from '@/lib/timezones';
+
+export interface DstWarningBannerProps {
+  from: DateTime;
+  /** Base zone first, then every comparison row; memoise it, the scan reruns whenever the array changes */
+  zones: { label: string; timezone: string }[];
+  /** How far ahead to look */
+  days?: number;
+}
+
+const DstWarningBanner: React.FC<DstWarningBannerProps> = ({ from, zones, days = 14 }) => {
+  const anchorMillis = from.startOf('hour').toMillis();
+
+  const transitions = useMemo(
+    () => getUpcomingTransitions(zones, DateTime.fromMillis(anchorMillis), days),
+    [anchorMillis, zones, days]
+  );
+
+  if (transitions.length === 0) return null;
+
+  return (
+    <Alert severity="warning" sx={{ borderRadius: 2 }}>
+      <AlertTitle>Clocks change within {days} days</AlertTitle>
+      {transitions.map((transition, i) => (
+        <Box key={`${transition.timezone}-${i}`}>
+          <strong>{transition.label}</strong>: {describeTransition(transition)} on{' '}
+          {transition.at.toFormat('ccc, d LLL', { locale: 'en-US' })} ({formatUtcOffset(transition.offsetBefore)} →{' '}
+          {formatUtcOffset(transition.offsetAfter)}, {transition.at.toRelative({ base: from, locale: 'en-US' })})
+        </Box>
+      ))}
+    </Alert>
+  );
+};
+
+export default DstWarningBanner;
@@ -0,0 +1,117 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { DateTime } from 'luxon';
+import { Box, Card, CardContent, Chip, Divider, Typography } from '@mui/material';
+import { ThemeProvider, createTheme } from '@mui/material/styles';
+import ZoneTimeDetails from '@/components/ZoneTimeDetails';
+import { formatComparisonQuery, resolveComparisons } from '@/lib/comparison';
+import { parseFoldChoice, resolveConversion } from '@/lib/convert';
+
+export type EmbedTheme = 'light' | 'dark';
+
+export interface EmbedClockProps {
+  /** Decoded route segment, e.g. "trnow" */
+  input: string;
+  comparisonCodes: string[];
+  at: string | null;
+  theme: EmbedTheme;
+  /** When the iframe page was served; the widget's clock starts here and ticks on in the browser */
+  renderedAt: number;
+}
+
+const createEmbedTheme = (mode: EmbedTheme) =>
+  createTheme({
+    palette: {
+      mode,
+      primary: { main: mode === 'dark' ? '#8ab4f8' : '#1a73e8' },
+      background: mode === 'dark' ? { default: '#202124', paper: '#292a2d' } : { default: '#f8f9fa', paper: '#ffffff' },
+    },
+    shape: { borderRadius: 8 },
+    typography: { fontFamily: "'Inter', 'Segoe UI', system-ui, sans-serif" },
+  });
+
+/** The time card and comparison rows alone, for iframes on wikis and dashboards */
+const EmbedClock: React.FC<EmbedClockProps> = ({ input, comparisonCodes, at, theme, renderedAt }) => {
+  const [now, setNow] = useState(() => DateTime.fromMillis(renderedAt));
+  const muiTheme = useMemo(() => createEmbedTheme(theme), [theme]);
+  const rows = useMemo(() => resolveComparisons(comparisonCodes), [comparisonCodes]);
+
+  const result = resolveConversion(input, { now, at: parseFoldChoice(at) });
+  const isLive = result.ok && result.conversion.parsed.time.kind === 'now';
+
+  useEffect(() => {
+    if (!isLive) return;
+    const interval = setInterval(() => setNow(DateTime.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isLive]);
+
+  const timeFormat = isLive ? 'HH:mm:ss' : 'HH:mm';
+  const fullPageHref = `/${encodeURIComponent(input)}${formatComparisonQuery(rows)}`;
+
+  return (
+    <ThemeProvider theme={muiTheme}>
+      <Box sx={{ minHeight: '100vh', bgcolor: 'background.default', p: 1.5 }}>
+        <Card variant="outlined">
+          {!result.ok ? (
+            <CardContent>
+              <Typography variant="body2" color="error">
+                {result.error.message}
+              </Typography>
+            </CardContent>
+          ) : (
+            <CardContent sx={{ pb: '12px !important' }}>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5, mb: 1 }}>
+                <Box sx={{ width: 32, height: 20, flexShrink: 0 }}>{result.conversion.parsed.zoneInfo.flagComponent}</Box>
+                <Typography variant="subtitle1" color="text.primary" fontWeight={600} noWrap sx={{ flexGrow: 1 }}>
+                  {result.conversion.parsed.zoneInfo.displayName}
+                </Typography>
+                {isLive && <Chip label="Live" color="success" size="small" sx={{ fontWeight: 600 }} />}
+              </Box>
+              <Typography
+                variant="h3"
+                color="primary"
+                sx={{ fontFamily: 'monospace', fontWeight: 600 }}
+                suppressHydrationWarning
+              >
+                {result.conversion.baseTime.toFormat(timeFormat)}
+              </Typography>
+              <ZoneTimeDetails local={result.conversion.baseTime} base={result.conversion.baseTime} />
+
+              {rows.length > 0 && <Divider sx={{ my: 1.5 }} />}
+              {rows.map((row) => {
+                const local = result.conversion.baseTime.setZone(row.timezone);
+                return (
+                  <Box key={row.code} sx={{ display: 'flex', alignItems: 'center', gap: 1.5, py: 0.75 }}>
+                    <Box sx={{ width: 32, height: 20, flexShrink: 0 }}>{row.flagComponent}</Box>
+                    <Box sx={{ flexGrow: 1, minWidth: 0 }}>
+                      <Typography variant="body2" color="text.primary" fontWeight={500} noWrap>
+                        {row.name}
+                      </Typography>
+                      <ZoneTimeDetails local={local} base={result.conversion.baseTime} />
+                    </Box>
+                    <Typography
+                      variant="h6"
+                      color="primary"
+                      sx={{ fontFamily: 'monospace', fontWeight: 600 }}
+                      suppressHydrationWarning
+                    >
+                      {local.toFormat(timeFormat)}
+                    </Typography>
+                  </Box>
+                );
+              })}
+            </CardContent>
+          )}
+        </Card>
+        <Typography variant="caption" color="text.secondary" component="div" sx={{ textAlign: 'right', mt: 0.5 }}>
+          <a href={fullPageHref} target="_blank" rel="noopener noreferrer" style={{ color: 'inherit' }}>
+            Timezone Baby
+          </a>
+        </Typography>
+      </Box>
+    </ThemeProvider>
+  );
+};
+
+export default EmbedClock;
@@ -0,0 +1,104 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import { CodeBracketIcon } from '@heroicons/react/24/outline';
+import type { EmbedTheme } from '@/components/EmbedClock';
+
+export interface EmbedSnippetProps {
+  /** Embed route for the current state, e.g. "/embed/trnow?vs=us,jp" */
+  embedPath: string;
+  /** Comparison rows shown, used to size the iframe */
+  rowCount: number;
+  /** Accessible iframe title */
+  title: string;
+}
+
+const escapeAttribute = (value: string) => value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+
+const EmbedSnippet: React.FC<EmbedSnippetProps> = ({ embedPath, rowCount, title }) => {
+  const [open, setOpen] = useState(false);
+  const [theme, setTheme] = useState<EmbedTheme>('light');
+  const [copied, setCopied] = useState(false);
+
+  const getSnippet = () => {
+    const src = `${window.location.origin}${embedPath}${embedPath.includes('?') ? '&' : '?'}theme=${theme}`;
+    const height = 190 + rowCount * 64;
+    return `<iframe src="${escapeAttribute(src)}" title="${escapeAttribute(title)}" width="360" height="${height}" style="border:0" loading="lazy"></iframe>`;
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(getSnippet());
+      setCopied(true);
+    } catch (err) {
+      console.warn('Could not copy the embed snippet:', err);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="outlined"
+        size="small"
+        startIcon={<CodeBracketIcon className="w-4 h-4" />}
+        onClick={() => {
+          setCopied(false);
+          setOpen(true);
+        }}
+        sx={{ borderRadius: 2 }}
+      >
+        Embed
+      </Button>
+      <Dialog open={open} onClose={() => setOpen(false)} fullWidth maxWidth="sm">
+        <DialogTitle>Embed this clock</DialogTitle>
+        {open && (
+          <DialogContent sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+            <Typography variant="body2" color="text.secondary">
+              Paste the snippet into a wiki or dashboard. It shows the time card and comparison rows only.
+            </Typography>
+            <ToggleButtonGroup
+              size="small"
+              exclusive
+              value={theme}
+              onChange={(_, value: EmbedTheme | null) => {
+                if (value) {
+                  setTheme(value);
+                  setCopied(false);
+                }
+              }}
+            >
+              <ToggleButton value="light">Light</ToggleButton>
+              <ToggleButton value="dark">Dark</ToggleButton>
+            </ToggleButtonGroup>
+            <TextField
+              multiline
+              minRows={3}
+              value={getSnippet()}
+              slotProps={{ input: { readOnly: true, sx: { fontFamily: 'monospace', fontSize: '0.8rem' } } }}
+              onFocus={(e) => e.target.select()}
+            />
+          </DialogContent>
+        )}
+        <DialogActions>
+          <Button onClick={() => setOpen(false)}>Close</Button>
+          <Button variant="contained" onClick={handleCopy}>
+            {copied ? 'Copied' : 'Copy snippet'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+};
+
+export default EmbedSnippet;
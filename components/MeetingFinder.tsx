@@ -0,0 +1,181 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { DateTime } from 'luxon';
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  Chip,
+  List,
+  ListItemButton,
+  MenuItem,
+  TextField,
+  Typography,
+} from '@mui/material';
+import {
+  DEFAULT_WORKING_HOURS,
+  findBestMeetingSlots,
+  MEETING_DURATIONS,
+  PlannerZone,
+  WorkingHours,
+} from '@/lib/meetingPlanner';
+
+export interface MeetingFinderZone extends PlannerZone {
+  /** Stable key the page stores this zone's working hours under */
+  key: string;
+}
+
+export interface MeetingFinderProps {
+  /** Any time on the planned day, in the base zone */
+  day: DateTime;
+  /** Base zone first, then every comparison row */
+  zones: MeetingFinderZone[];
+  onChangeWorkingHours: (key: string, hours: WorkingHours) => void;
+  /** Route for a suggestion, given its start in the base zone */
+  getSuggestionHref: (start: DateTime) => string;
+}
+
+const HOURS = Array.from({ length: 25 }, (_, hour) => hour);
+
+const formatHour = (hour: number) => `${String(hour).padStart(2, '0')}:00`;
+
+const MeetingFinder: React.FC<MeetingFinderProps> = ({ day, zones, onChangeWorkingHours, getSuggestionHref }) => {
+  const [duration, setDuration] = useState(60);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+
+  // Once requested, suggestions follow any later edit to hours or duration
+  const suggestions = useMemo(
+    () => (showSuggestions ? findBestMeetingSlots(day, zones, duration) : []),
+    [showSuggestions, day, zones, duration]
+  );
+
+  const handleChange = (zone: MeetingFinderZone, field: keyof WorkingHours, value: number) => {
+    const current = zone.workingHours || DEFAULT_WORKING_HOURS;
+    const next = { ...current, [field]: value };
+    // Keep the window at least an hour long
+    if (next.end <= next.start) {
+      if (field === 'start') next.end = Math.min(24, next.start + 1);
+      else next.start = Math.max(0, next.end - 1);
+    }
+    onChangeWorkingHours(zone.key, next);
+  };
+
+  return (
+    <Card>
+      <CardHeader
+        title="Find a Meeting Time"
+        subheader="Set each zone's working hours and a meeting length, then pick from the best slots."
+        titleTypographyProps={{ variant: 'h6', color: 'text.primary', fontWeight: 600 }}
+      />
+      <CardContent>
+        <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '1fr 110px 110px' }, gap: 1, mb: 2 }}>
+          {zones.map((zone, zoneIndex) => {
+            const hours = zone.workingHours || DEFAULT_WORKING_HOURS;
+            return (
+              <React.Fragment key={`${zone.key}-${zoneIndex}`}>
+                <Typography variant="body2" color="text.primary" fontWeight={500} sx={{ alignSelf: 'center' }} noWrap>
+                  {zone.label}
+                </Typography>
+                <TextField
+                  select
+                  size="small"
+                  label="From"
+                  value={hours.start}
+                  onChange={(e) => handleChange(zone, 'start', Number(e.target.value))}
+                >
+                  {HOURS.slice(0, 24).map((hour) => (
+                    <MenuItem key={hour} value={hour}>
+                      {formatHour(hour)}
+                    </MenuItem>
+                  ))}
+                </TextField>
+                <TextField
+                  select
+                  size="small"
+                  label="To"
+                  value={hours.end}
+                  onChange={(e) => handleChange(zone, 'end', Number(e.target.value))}
+                >
+                  {HOURS.slice(1).map((hour) => (
+                    <MenuItem key={hour} value={hour}>
+                      {formatHour(hour)}
+                    </MenuItem>
+                  ))}
+                </TextField>
+              </React.Fragment>
+            );
+          })}
+        </Box>
+
+        <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', mb: 2 }}>
+          <TextField
+            select
+            size="small"
+            label="Length"
+            value={duration}
+            onChange={(e) => setDuration(Number(e.target.value))}
+            sx={{ minWidth: 140 }}
+          >
+            {MEETING_DURATIONS.map((option) => (
+              <MenuItem key={option.minutes} value={option.minutes}>
+                {option.label}
+              </MenuItem>
+            ))}
+          </TextField>
+          <Button variant="contained" onClick={() => setShowSuggestions(true)}>
+            Suggest a time
+          </Button>
+        </Box>
+
+        {suggestions.length > 0 && (
+          <List disablePadding>
+            {suggestions.map((suggestion) => {
+              const everyone = suggestion.participantsInside === zones.length;
+              return (
+                <ListItemButton
+                  key={suggestion.start.toMillis()}
+                  component={Link}
+                  href={getSuggestionHref(suggestion.start)}
+                  sx={{ borderRadius: 2, mb: 1, display: 'block', border: '1px solid', borderColor: 'divider' }}
+                >
+                  <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+                    <Typography variant="subtitle1" color="text.primary" fontWeight={600}>
+                      {suggestion.start.toFormat('HH:mm')}–{suggestion.start.plus({ minutes: duration }).toFormat('HH:mm')}
+                    </Typography>
+                    <Chip
+                      size="small"
+                      color={everyone ? 'success' : 'default'}
+                      label={`${suggestion.participantsInside}/${zones.length} in working hours`}
+                    />
+                  </Box>
+                  <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+                    {suggestion.locals.map((local, i) => (
+                      <Chip
+                        key={`${zones[i].key}-${i}`}
+                        size="small"
+                        variant="outlined"
+                        color={suggestion.minutesOutside[i] === 0 ? 'primary' : 'default'}
+                        label={`${zones[i].label}: ${local.toFormat('ccc HH:mm', { locale: 'en-US' })}`}
+                        title={
+                          suggestion.minutesOutside[i] === 0
+                            ? 'Inside working hours'
+                            : `${suggestion.minutesOutside[i]} min outside working hours`
+                        }
+                      />
+                    ))}
+                  </Box>
+                </ListItemButton>
+              );
+            })}
+          </List>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MeetingFinder;
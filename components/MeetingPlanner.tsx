@@ -0,0 +1,129 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import Link from 'next/link';
+import { DateTime } from 'luxon';
+import { Box, Card, CardContent, CardHeader, Chip, Typography } from '@mui/material';
+import { buildPlannerSlots, PlannerZone } from '@/lib/meetingPlanner';
+
+export interface MeetingPlannerProps {
+  /** Any time on the planned day, in the base zone */
+  day: DateTime;
+  /** Base zone first, then every comparison row */
+  zones: PlannerZone[];
+  /** Hour of the base zone that is currently shown, highlighted in the grid */
+  activeHour?: number;
+  /** Route for a slot, given its hour in the base zone */
+  getSlotHref: (hour: number) => string;
+}
+
+const CELL_WIDTH = 44;
+const LABEL_WIDTH = 140;
+
+const MeetingPlanner: React.FC<MeetingPlannerProps> = ({ day, zones, activeHour, getSlotHref }) => {
+  const slots = useMemo(() => buildPlannerSlots(day, zones), [day, zones]);
+  const overlapHours = slots.filter((s) => s.overlap).map((s) => s.hour);
+
+  return (
+    <Card>
+      <CardHeader
+        title="Meeting Planner"
+        subheader={day.toFormat('cccc, d LLLL yyyy', { locale: 'en-US' })}
+        action={
+          <Chip
+            label={
+              overlapHours.length > 0
+                ? `${overlapHours.length}h overlap`
+                : 'No common working hours'
+            }
+            color={overlapHours.length > 0 ? 'success' : 'default'}
+            size="small"
+            sx={{ fontWeight: 600 }}
+          />
+        }
+        titleTypographyProps={{ variant: 'h6', color: 'text.primary', fontWeight: 600 }}
+      />
+      <CardContent>
+        <Box sx={{ overflowX: 'auto' }}>
+          <Box
+            sx={{
+              display: 'grid',
+              gridTemplateColumns: `${LABEL_WIDTH}px repeat(24, ${CELL_WIDTH}px)`,
+              rowGap: 0.5,
+              minWidth: LABEL_WIDTH + 24 * CELL_WIDTH,
+            }}
+          >
+            {zones.map((zone, zoneIndex) => (
+              <React.Fragment key={`${zone.timezone}-${zoneIndex}`}>
+                <Box
+                  sx={{
+                    position: 'sticky',
+                    left: 0,
+                    zIndex: 1,
+                    bgcolor: 'background.paper',
+                    pr: 1,
+                    display: 'flex',
+                    alignItems: 'center',
+                  }}
+                >
+                  <Typography variant="body2" color="text.primary" fontWeight={zoneIndex === 0 ? 600 : 500} noWrap>
+                    {zone.label}
+                  </Typography>
+                </Box>
+                {slots.map((slot) => {
+                  const cell = slot.cells[zoneIndex];
+                  const isActive = slot.hour === activeHour;
+                  return (
+                    <Box
+                      key={slot.hour}
+                      component={Link}
+                      href={getSlotHref(slot.hour)}
+                      title={`${slot.start.toFormat('HH:mm')} ${zones[0].label} = ${cell.local.toFormat('ccc HH:mm', { locale: 'en-US' })} ${zone.label}`}
+                      sx={{
+                        height: 36,
+                        display: 'flex',
+                        alignItems: 'center',
+                        justifyContent: 'center',
+                        textDecoration: 'none',
+                        fontFamily: 'monospace',
+                        fontSize: '0.8rem',
+                        color: cell.working ? 'primary.dark' : 'text.secondary',
+                        bgcolor: slot.overlap
+                          ? 'rgba(52, 168, 83, 0.25)'
+                          : cell.working
+                            ? '#e8f0fe'
+                            : 'transparent',
+                        borderLeft: '1px solid',
+                        borderColor: 'divider',
+                        outline: isActive ? '2px solid #1a73e8' : 'none',
+                        outlineOffset: -2,
+                        '&:hover': { bgcolor: 'rgba(26, 115, 232, 0.15)' },
+                      }}
+                    >
+                      {cell.local.minute === 0 ? cell.local.toFormat('H') : cell.local.toFormat('H:mm')}
+                    </Box>
+                  );
+                })}
+              </React.Fragment>
+            ))}
+          </Box>
+        </Box>
+        <Box sx={{ display: 'flex', gap: 2, mt: 2, flexWrap: 'wrap' }}>
+          <Typography variant="caption" color="text.secondary">
+            <Box component="span" sx={{ display: 'inline-block', width: 12, height: 12, bgcolor: '#e8f0fe', mr: 0.5, verticalAlign: 'middle' }} />
+            Working hours
+          </Typography>
+          <Typography variant="caption" color="text.secondary">
+            <Box component="span" sx={{ display: 'inline-block', width: 12, height: 12, bgcolor: 'rgba(52, 168, 83, 0.25)', mr: 0.5, verticalAlign: 'middle' }} />
+            Everyone available
+          </Typography>
+          <Typography variant="caption" color="text.secondary">
+            Click a slot to open it.
+          </Typography>
+        </Box>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MeetingPlanner;
@@ -0,0 +1,55 @@
+'use client';
+
+import React from 'react';
+import { DateTime } from 'luxon';
+import { Box, Paper, Typography } from '@mui/material';
+import ZoneTimeDetails from '@/components/ZoneTimeDetails';
+
+export interface TimeEquivalent {
+  key: string;
+  /** "for you in Istanbul", "in Türkiye" */
+  label: string;
+  timezone: string;
+  flagComponent?: React.ReactNode;
+}
+
+export interface TimeEquivalentsProps {
+  /** The source time the page converts */
+  base: DateTime;
+  equivalents: TimeEquivalent[];
+  /** Luxon format for the times, matching the main clock */
+  timeFormat: string;
+}
+
+/** "= 08:00 for you in Istanbul" lines under the main clock, one per viewer or target zone */
+const TimeEquivalents: React.FC<TimeEquivalentsProps> = ({ base, equivalents, timeFormat }) => {
+  if (equivalents.length === 0) return null;
+
+  return (
+    <Paper
+      variant="outlined"
+      sx={{ mb: 2, p: 2, borderRadius: 2, borderColor: 'primary.main', display: 'flex', flexDirection: 'column', gap: 1.5 }}
+    >
+      {equivalents.map((equivalent) => {
+        const local = base.setZone(equivalent.timezone);
+        return (
+          <Box key={equivalent.key} sx={{ display: 'flex', alignItems: 'center', gap: 1.5, textAlign: 'left' }}>
+            {equivalent.flagComponent && <Box sx={{ width: 32, height: 20, flexShrink: 0 }}>{equivalent.flagComponent}</Box>}
+            <Box sx={{ flexGrow: 1, minWidth: 0 }}>
+              <Typography variant="h6" color="text.primary" sx={{ fontWeight: 500 }}>
+                ={' '}
+                <Box component="span" sx={{ fontFamily: 'monospace', fontWeight: 700, color: 'primary.main' }} suppressHydrationWarning>
+                  {local.toFormat(timeFormat)}
+                </Box>{' '}
+                {equivalent.label}
+              </Typography>
+              <ZoneTimeDetails local={local} base={base} />
+            </Box>
+          </Box>
+        );
+      })}
+    </Paper>
+  );
+};
+
+export default TimeEquivalents;
@@ -0,0 +1,51 @@
+'use client';
+
+import React from 'react';
+import { DateTime } from 'luxon';
+import { Box, Slider, Typography } from '@mui/material';
+
+export interface TimeScrubberProps {
+  /** Wall time the thumb sits on */
+  value: DateTime;
+  /** Called on every step while dragging */
+  onChange: (hour: number, minute: number) => void;
+  /** Called once the thumb is released */
+  onChangeCommitted: (hour: number, minute: number) => void;
+}
+
+const STEP_MINUTES = 15;
+const LAST_STEP = 24 * 60 - STEP_MINUTES;
+
+const MARKS = [0, 6, 12, 18].map((hour) => ({ value: hour * 60, label: `${String(hour).padStart(2, '0')}:00` }));
+
+const formatMinutes = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+const toHourMinute = (value: number | number[]): [number, number] => {
+  const minutes = Array.isArray(value) ? value[0] : value;
+  return [Math.floor(minutes / 60), minutes % 60];
+};
+
+/** 24-hour slider in 15-minute steps for re-timing a conversion without a reload */
+const TimeScrubber: React.FC<TimeScrubberProps> = ({ value, onChange, onChangeCommitted }) => (
+  <Box sx={{ px: 2, mb: 2 }}>
+    <Slider
+      value={value.hour * 60 + value.minute}
+      min={0}
+      max={LAST_STEP}
+      step={STEP_MINUTES}
+      marks={MARKS}
+      valueLabelDisplay="auto"
+      valueLabelFormat={formatMinutes}
+      getAriaValueText={formatMinutes}
+      aria-label="Time of day"
+      onChange={(_, next) => onChange(...toHourMinute(next))}
+      onChangeCommitted={(_, next) => onChangeCommitted(...toHourMinute(next))}
+    />
+    <Typography variant="caption" color="text.secondary">
+      Drag to try another time; every row follows
+    </Typography>
+  </Box>
+);
+
+export default TimeScrubber;
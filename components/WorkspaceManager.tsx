@@ -0,0 +1,200 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  IconButton,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemText,
+  TextField,
+  Tooltip,
+} from '@mui/material';
+import {
+  Delete as DeleteIcon,
+  Download as DownloadIcon,
+  Star as StarIcon,
+  StarBorder as StarBorderIcon,
+  Upload as UploadIcon,
+} from '@mui/icons-material';
+import {
+  exportWorkspaces,
+  importWorkspaces,
+  loadWorkspaces,
+  removeWorkspace,
+  saveWorkspaces,
+  toggleDefaultWorkspace,
+  upsertWorkspace,
+  WorkspaceStore,
+} from '@/lib/workspaces';
+
+export interface WorkspaceManagerProps {
+  /** Codes of the rows currently in the comparison card */
+  currentCodes: string[];
+  onLoadWorkspace: (codes: string[]) => void;
+}
+
+const WorkspaceManager: React.FC<WorkspaceManagerProps> = ({ currentCodes, onLoadWorkspace }) => {
+  const [store, setStore] = useState<WorkspaceStore>({ workspaces: [], defaultId: null });
+  const [name, setName] = useState('');
+  const [error, setError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // localStorage is only available after hydration
+  useEffect(() => {
+    setStore(loadWorkspaces());
+  }, []);
+
+  const updateStore = (next: WorkspaceStore) => {
+    setStore(next);
+    saveWorkspaces(next);
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!name.trim()) {
+      setError('Give the workspace a name.');
+      return;
+    }
+    if (currentCodes.length === 0) {
+      setError('Add at least one zone to the comparison before saving.');
+      return;
+    }
+
+    updateStore(upsertWorkspace(store, name, currentCodes));
+    setName('');
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportWorkspaces(store)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'timezonebaby-workspaces.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError('');
+    try {
+      updateStore(importWorkspaces(store, await file.text()));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not import workspaces.');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader
+        title="Workspaces"
+        subheader="Saved sets of comparison zones. The starred one is loaded on every page."
+        titleTypographyProps={{ variant: 'h6', color: 'text.primary', fontWeight: 600 }}
+      />
+      <CardContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2, borderRadius: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <Box component="form" onSubmit={handleSave} sx={{ display: 'flex', gap: 1, mb: 2 }}>
+          <TextField
+            size="small"
+            fullWidth
+            placeholder='e.g. "APAC on-call"'
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <Button type="submit" variant="contained" size="small">
+            Save
+          </Button>
+        </Box>
+
+        {store.workspaces.length > 0 && (
+          <List sx={{ maxHeight: 300, overflow: 'auto' }}>
+            {store.workspaces.map((workspace) => (
+              <ListItem
+                key={workspace.id}
+                disablePadding
+                secondaryAction={
+                  <Box sx={{ display: 'flex' }}>
+                    <Tooltip title={workspace.id === store.defaultId ? 'Default workspace' : 'Make default'}>
+                      <IconButton
+                        size="small"
+                        onClick={() => updateStore(toggleDefaultWorkspace(store, workspace.id))}
+                      >
+                        {workspace.id === store.defaultId ? (
+                          <StarIcon fontSize="small" color="primary" />
+                        ) : (
+                          <StarBorderIcon fontSize="small" />
+                        )}
+                      </IconButton>
+                    </Tooltip>
+                    <IconButton
+                      size="small"
+                      edge="end"
+                      onClick={() => updateStore(removeWorkspace(store, workspace.id))}
+                    >
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </Box>
+                }
+              >
+                <ListItemButton onClick={() => onLoadWorkspace(workspace.codes)} sx={{ borderRadius: 2, pr: 10 }}>
+                  <ListItemText
+                    primary={workspace.name}
+                    secondary={workspace.codes.join(', ').toUpperCase()}
+                    primaryTypographyProps={{ fontWeight: 500, color: 'text.primary' }}
+                    secondaryTypographyProps={{ color: 'text.secondary', fontSize: '0.75rem' }}
+                  />
+                </ListItemButton>
+              </ListItem>
+            ))}
+          </List>
+        )}
+
+        <Box sx={{ display: 'flex', gap: 1, mt: 2 }}>
+          <Button
+            variant="outlined"
+            size="small"
+            startIcon={<DownloadIcon />}
+            onClick={handleExport}
+            disabled={store.workspaces.length === 0}
+          >
+            Export
+          </Button>
+          <Button
+            variant="outlined"
+            size="small"
+            startIcon={<UploadIcon />}
+            onClick={() => fileInputRef.current?.click()}
+          >
+            Import
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            hidden
+            onChange={handleImport}
+          />
+        </Box>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WorkspaceManager;
@@ -0,0 +1,47 @@
+'use client';
+
+import React from 'react';
+import { DateTime } from 'luxon';
+import { Box, Chip, Typography } from '@mui/material';
+import { formatDayShift, formatZoneOffset, getDayShift } from '@/lib/timezones';
+
+export interface ZoneTimeDetailsProps {
+  /** The converted time, already in its own zone */
+  local: DateTime;
+  /** The source time the day badge is relative to */
+  base: DateTime;
+  /** Hide the weekday/date, for nested rows where the parent already shows it */
+  compact?: boolean;
+  justifyContent?: 'flex-start' | 'center' | 'flex-end';
+}
+
+const ZoneTimeDetails: React.FC<ZoneTimeDetailsProps> = ({ local, base, compact = false, justifyContent = 'flex-start' }) => {
+  const dayShift = formatDayShift(getDayShift(base, local));
+
+  return (
+    <Box
+      sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap', justifyContent }}
+      suppressHydrationWarning // Live times can cross midnight between server and client render
+    >
+      {!compact && (
+        <Typography variant="body2" color="text.secondary">
+          {local.toFormat('ccc, d LLL yyyy', { locale: 'en-US' })}
+        </Typography>
+      )}
+      {dayShift && (
+        <Chip
+          label={dayShift}
+          size="small"
+          color="warning"
+          variant="outlined"
+          sx={{ height: 20, fontSize: '0.7rem', fontWeight: 600 }}
+        />
+      )}
+      <Typography variant="caption" color="text.secondary" sx={{ fontFamily: 'monospace' }}>
+        {formatZoneOffset(local)}
+      </Typography>
+    </Box>
+  );
+};
+
+export default ZoneTimeDetails;
@@ -0,0 +1,127 @@
+export interface AbbreviationEntry {
+  /** Upper-case abbreviation as typed, e.g. "IST" */
+  abbreviation: string;
+  /** Disambiguation key, the ISO code of the region it belongs to ("in", "ie", "il") */
+  key: string;
+  /** Long name, e.g. "India Standard Time" */
+  name: string;
+  /** Fixed offset in minutes east of UTC */
+  offset: number;
+  /** Zone to follow when DST should be honoured */
+  timezone: string;
+}
+
+/**
+ * Timezone abbreviations. Abbreviations with several meanings list the most
+ * common one first; that one is used when no key is given.
+ */
+const ABBREVIATIONS: AbbreviationEntry[] = [
+  { abbreviation: "UTC", key: "un", name: "Coordinated Universal Time", offset: 0, timezone: "UTC" },
+  { abbreviation: "GMT", key: "gb", name: "Greenwich Mean Time", offset: 0, timezone: "Europe/London" },
+  { abbreviation: "WET", key: "pt", name: "Western European Time", offset: 0, timezone: "Europe/Lisbon" },
+  { abbreviation: "WEST", key: "pt", name: "Western European Summer Time", offset: 60, timezone: "Europe/Lisbon" },
+  { abbreviation: "BST", key: "gb", name: "British Summer Time", offset: 60, timezone: "Europe/London" },
+  { abbreviation: "BST", key: "bd", name: "Bangladesh Standard Time", offset: 360, timezone: "Asia/Dhaka" },
+  { abbreviation: "IST", key: "in", name: "India Standard Time", offset: 330, timezone: "Asia/Kolkata" },
+  { abbreviation: "IST", key: "ie", name: "Irish Standard Time", offset: 60, timezone: "Europe/Dublin" },
+  { abbreviation: "IST", key: "il", name: "Israel Standard Time", offset: 120, timezone: "Asia/Jerusalem" },
+  { abbreviation: "IDT", key: "il", name: "Israel Daylight Time", offset: 180, timezone: "Asia/Jerusalem" },
+  { abbreviation: "CET", key: "fr", name: "Central European Time", offset: 60, timezone: "Europe/Paris" },
+  { abbreviation: "CEST", key: "fr", name: "Central European Summer Time", offset: 120, timezone: "Europe/Paris" },
+  { abbreviation: "EET", key: "gr", name: "Eastern European Time", offset: 120, timezone: "Europe/Athens" },
+  { abbreviation: "EEST", key: "gr", name: "Eastern European Summer Time", offset: 180, timezone: "Europe/Athens" },
+  { abbreviation: "WAT", key: "ng", name: "West Africa Time", offset: 60, timezone: "Africa/Lagos" },
+  { abbreviation: "CAT", key: "mz", name: "Central Africa Time", offset: 120, timezone: "Africa/Maputo" },
+  { abbreviation: "SAST", key: "za", name: "South Africa Standard Time", offset: 120, timezone: "Africa/Johannesburg" },
+  { abbreviation: "EAT", key: "ke", name: "East Africa Time", offset: 180, timezone: "Africa/Nairobi" },
+  { abbreviation: "MSK", key: "ru", name: "Moscow Standard Time", offset: 180, timezone: "Europe/Moscow" },
+  { abbreviation: "TRT", key: "tr", name: "Turkey Time", offset: 180, timezone: "Europe/Istanbul" },
+  { abbreviation: "AST", key: "ca", name: "Atlantic Standard Time", offset: -240, timezone: "America/Halifax" },
+  { abbreviation: "AST", key: "sa", name: "Arabia Standard Time", offset: 180, timezone: "Asia/Riyadh" },
+  { abbreviation: "ADT", key: "ca", name: "Atlantic Daylight Time", offset: -180, timezone: "America/Halifax" },
+  { abbreviation: "GST", key: "ae", name: "Gulf Standard Time", offset: 240, timezone: "Asia/Dubai" },
+  { abbreviation: "GST", key: "gs", name: "South Georgia Time", offset: -120, timezone: "Atlantic/South_Georgia" },
+  { abbreviation: "PKT", key: "pk", name: "Pakistan Standard Time", offset: 300, timezone: "Asia/Karachi" },
+  { abbreviation: "NPT", key: "np", name: "Nepal Time", offset: 345, timezone: "Asia/Kathmandu" },
+  { abbreviation: "ICT", key: "th", name: "Indochina Time", offset: 420, timezone: "Asia/Bangkok" },
+  { abbreviation: "WIB", key: "id", name: "Western Indonesia Time", offset: 420, timezone: "Asia/Jakarta" },
+  { abbreviation: "CST", key: "us", name: "Central Standard Time", offset: -360, timezone: "America/Chicago" },
+  { abbreviation: "CST", key: "cn", name: "China Standard Time", offset: 480, timezone: "Asia/Shanghai" },
+  { abbreviation: "CST", key: "cu", name: "Cuba Standard Time", offset: -300, timezone: "America/Havana" },
+  { abbreviation: "CDT", key: "us", name: "Central Daylight Time", offset: -300, timezone: "America/Chicago" },
+  { abbreviation: "CDT", key: "cu", name: "Cuba Daylight Time", offset: -240, timezone: "America/Havana" },
+  { abbreviation: "HKT", key: "hk", name: "Hong Kong Time", offset: 480, timezone: "Asia/Hong_Kong" },
+  { abbreviation: "SGT", key: "sg", name: "Singapore Time", offset: 480, timezone: "Asia/Singapore" },
+  { abbreviation: "PHT", key: "ph", name: "Philippine Time", offset: 480, timezone: "Asia/Manila" },
+  { abbreviation: "AWST", key: "au", name: "Australian Western Standard Time", offset: 480, timezone: "Australia/Perth" },
+  { abbreviation: "KST", key: "kr", name: "Korea Standard Time", offset: 540, timezone: "Asia/Seoul" },
+  { abbreviation: "JST", key: "jp", name: "Japan Standard Time", offset: 540, timezone: "Asia/Tokyo" },
+  { abbreviation: "ACST", key: "au", name: "Australian Central Standard Time", offset: 570, timezone: "Australia/Adelaide" },
+  { abbreviation: "ACDT", key: "au", name: "Australian Central Daylight Time", offset: 630, timezone: "Australia/Adelaide" },
+  { abbreviation: "AEST", key: "au", name: "Australian Eastern Standard Time", offset: 600, timezone: "Australia/Sydney" },
+  { abbreviation: "AEDT", key: "au", name: "Australian Eastern Daylight Time", offset: 660, timezone: "Australia/Sydney" },
+  { abbreviation: "NZST", key: "nz", name: "New Zealand Standard Time", offset: 720, timezone: "Pacific/Auckland" },
+  { abbreviation: "NZDT", key: "nz", name: "New Zealand Daylight Time", offset: 780, timezone: "Pacific/Auckland" },
+  { abbreviation: "SST", key: "as", name: "Samoa Standard Time", offset: -660, timezone: "Pacific/Pago_Pago" },
+  { abbreviation: "SST", key: "sg", name: "Singapore Standard Time", offset: 480, timezone: "Asia/Singapore" },
+  { abbreviation: "HST", key: "us", name: "Hawaii-Aleutian Standard Time", offset: -600, timezone: "Pacific/Honolulu" },
+  { abbreviation: "AKST", key: "us", name: "Alaska Standard Time", offset: -540, timezone: "America/Anchorage" },
+  { abbreviation: "AKDT", key: "us", name: "Alaska Daylight Time", offset: -480, timezone: "America/Anchorage" },
+  { abbreviation: "PST", key: "us", name: "Pacific Standard Time", offset: -480, timezone: "America/Los_Angeles" },
+  { abbreviation: "PDT", key: "us", name: "Pacific Daylight Time", offset: -420, timezone: "America/Los_Angeles" },
+  { abbreviation: "MST", key: "us", name: "Mountain Standard Time", offset: -420, timezone: "America/Denver" },
+  { abbreviation: "MDT", key: "us", name: "Mountain Daylight Time", offset: -360, timezone: "America/Denver" },
+  { abbreviation: "EST", key: "us", name: "Eastern Standard Time", offset: -300, timezone: "America/New_York" },
+  { abbreviation: "EDT", key: "us", name: "Eastern Daylight Time", offset: -240, timezone: "America/New_York" },
+  { abbreviation: "NST", key: "ca", name: "Newfoundland Standard Time", offset: -210, timezone: "America/St_Johns" },
+  { abbreviation: "NDT", key: "ca", name: "Newfoundland Daylight Time", offset: -150, timezone: "America/St_Johns" },
+  { abbreviation: "BRT", key: "br", name: "Brasília Time", offset: -180, timezone: "America/Sao_Paulo" },
+  { abbreviation: "ART", key: "ar", name: "Argentina Time", offset: -180, timezone: "America/Argentina/Buenos_Aires" },
+];
+
+/** The full abbreviation table, in display order */
+export function getAbbreviationTable(): AbbreviationEntry[] {
+  return ABBREVIATIONS;
+}
+
+/** Every meaning of an abbreviation, most common first */
+export function getAbbreviationEntries(abbreviation: string): AbbreviationEntry[] {
+  const upper = abbreviation.toUpperCase();
+  return ABBREVIATIONS.filter((entry) => entry.abbreviation === upper);
+}
+
+export interface AbbreviationMatch {
+  entry: AbbreviationEntry;
+  /** Follow the entry's zone through DST instead of pinning its fixed offset */
+  followDst: boolean;
+  /** Other meanings of the same abbreviation, for the "did you mean" prompt */
+  alternatives: AbbreviationEntry[];
+}
+
+/**
+ * Parse "IST", "IST-IE", "PST-DST" or "CST-CN-DST". Without a key the most
+ * common meaning is picked and the rest are returned as alternatives.
+ */
+export function matchAbbreviation(code: string): AbbreviationMatch | null {
+  const match = code.toUpperCase().match(/^([A-Z]{3,5})(?:[-_]([A-Z]{2}))?([-_]DST)?$/);
+  if (!match) return null;
+
+  const [, abbreviation, key, dstSuffix] = match;
+  const entries = getAbbreviationEntries(abbreviation);
+  const entry = key ? entries.find((e) => e.key === key.toLowerCase()) : entries[0];
+  if (!entry) return null;
+
+  return {
+    entry,
+    followDst: Boolean(dstSuffix),
+    alternatives: entries.filter((e) => e !== entry),
+  };
+}
+
+/** Route code for an entry: "ist-ie", "pst-dst"; the key is only added when the abbreviation is ambiguous */
+export function getAbbreviationCode(entry: AbbreviationEntry, followDst: boolean): string {
+  const ambiguous = getAbbreviationEntries(entry.abbreviation).length > 1;
+  return [entry.abbreviation.toLowerCase(), ambiguous ? entry.key : null, followDst ? "dst" : null]
+    .filter(Boolean)
+    .join("-");
+}
@@ -0,0 +1,26 @@
+import { useEffect, useState } from "react";
+import { DateTime } from "luxon";
+
+/** The visitor's IANA zone as the browser reports it, or null outside a browser or for zones luxon can't load */
+export function detectBrowserTimeZone(): string | null {
+  if (typeof window === "undefined") return null;
+
+  try {
+    const zone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    return zone && DateTime.now().setZone(zone).isValid ? zone : null;
+  } catch (err) {
+    console.warn("Could not detect the browser time zone:", err);
+    return null;
+  }
+}
+
+/** Browser zone, read after mount so the server render and hydration agree */
+export function useBrowserTimeZone(): string | null {
+  const [zone, setZone] = useState<string | null>(null);
+
+  useEffect(() => {
+    setZone(detectBrowserTimeZone());
+  }, []);
+
+  return zone;
+}
@@ -0,0 +1,97 @@
+import countriesData from "world-countries";
+import { getAbbreviationCode, getAbbreviationTable } from "@/lib/abbreviations";
+import {
+  getCountryZones,
+  getTimeZoneFromCode,
+  getZoneCityName,
+  getZoneShortCode,
+  zoneObservesDst,
+} from "@/lib/timezones";
+
+export type CatalogKind = "country" | "city" | "abbreviation";
+
+/** One route code the resolver accepts, as listed on /searchhelp */
+export interface CatalogEntry {
+  /** Route code, e.g. "de", "us-la", "pst" */
+  code: string;
+  name: string;
+  kind: CatalogKind;
+  /** IANA zone (or fixed-offset zone) the code resolves to */
+  timezone: string;
+  region: string;
+  /** ISO code for the flag, when the entry belongs to a country */
+  countryCode: string | null;
+  /** For abbreviations of DST zones: the "-dst" code and the IANA zone it follows */
+  followDst: { code: string; timezone: string } | null;
+}
+
+/** Region for entries that belong to no country, such as UTC */
+export const GLOBAL_REGION = "Global";
+
+/** Display order of the region groups */
+export const CATALOG_REGIONS = ["Europe", "Americas", "Asia", "Africa", "Oceania", "Antarctic", GLOBAL_REGION];
+
+const REGION_BY_COUNTRY = new Map(countriesData.map((c) => [c.cca2.toUpperCase(), c.region]));
+
+/**
+ * Every country code, every city code of a multi-zone country ("us-la") and
+ * every abbreviation, with the zone each one resolves to. Codes that stop
+ * resolving are left out rather than listed with a wrong zone.
+ */
+export function getCodeCatalog(): CatalogEntry[] {
+  const entries: CatalogEntry[] = [];
+
+  countriesData.forEach((country) => {
+    const countryCode = country.cca2.toUpperCase();
+    const zones = getCountryZones(countryCode);
+    if (zones.length === 0) return;
+
+    entries.push({
+      code: countryCode.toLowerCase(),
+      name: country.name.common,
+      kind: "country",
+      timezone: zones[0],
+      region: country.region,
+      countryCode,
+      followDst: null,
+    });
+
+    if (zones.length > 1) {
+      zones.forEach((timezone) => {
+        const code = `${countryCode.toLowerCase()}-${getZoneShortCode(countryCode, timezone)}`;
+        if (getTimeZoneFromCode(code)?.timezone !== timezone) return;
+        entries.push({
+          code,
+          name: `${country.name.common} (${getZoneCityName(timezone)})`,
+          kind: "city",
+          timezone,
+          region: country.region,
+          countryCode,
+          followDst: null,
+        });
+      });
+    }
+  });
+
+  getAbbreviationTable().forEach((entry) => {
+    const code = getAbbreviationCode(entry, false);
+    const zoneInfo = getTimeZoneFromCode(code);
+    if (!zoneInfo) return;
+
+    const countryCode = entry.key.toUpperCase();
+    const region = REGION_BY_COUNTRY.get(countryCode);
+    entries.push({
+      code,
+      name: `${entry.abbreviation} · ${entry.name}`,
+      kind: "abbreviation",
+      timezone: zoneInfo.timezone,
+      region: region || GLOBAL_REGION,
+      countryCode: region ? countryCode : null,
+      followDst: zoneObservesDst(entry.timezone)
+        ? { code: getAbbreviationCode(entry, true), timezone: entry.timezone }
+        : null,
+    });
+  });
+
+  return entries;
+}
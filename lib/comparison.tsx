@@ -0,0 +1,77 @@
+import React from "react";
+import * as Flags from "country-flag-icons/react/3x2";
+import { GlobeAltIcon } from "@heroicons/react/24/outline";
+import type { Country } from "@/components/CountrySelector";
+import { getCountryZones, getTimeZoneFromCode, getZoneCityName } from "@/lib/timezones";
+
+export interface PopularTimezone {
+  name: string;
+  /** Route code; resolves to `timezone` so shared links rebuild the same row */
+  code: string;
+  timezone: string;
+  flagComponent: React.ReactNode;
+}
+
+export const POPULAR_TIMEZONES: PopularTimezone[] = [
+  { name: "CET (Paris)", code: "cet-dst", timezone: "Europe/Paris", flagComponent: <Flags.FR className="w-6 h-4" /> },
+  { name: "IST (India)", code: "ist", timezone: "Asia/Kolkata", flagComponent: <Flags.IN className="w-6 h-4" /> },
+  { name: "PST (Los Angeles)", code: "pst-dst", timezone: "America/Los_Angeles", flagComponent: <Flags.US className="w-6 h-4" /> },
+  { name: "UTC (Universal)", code: "utc", timezone: "UTC", flagComponent: <GlobeAltIcon className="w-6 h-4 text-blue-500" /> },
+  { name: "Istanbul (TR)", code: "tr", timezone: "Europe/Istanbul", flagComponent: <Flags.TR className="w-6 h-4" /> },
+  { name: "EST (New York)", code: "est-dst", timezone: "America/New_York", flagComponent: <Flags.US className="w-6 h-4" /> },
+  { name: "JST (Tokyo)", code: "jst", timezone: "Asia/Tokyo", flagComponent: <Flags.JP className="w-6 h-4" /> },
+];
+
+/** Zones a link is previewed against when it carries no ?vs= list */
+export const DEFAULT_COMPARISON_CODES = ["us-ny", "gb", "jp"];
+
+/** "us,jp,cet-dst" -> ["us", "jp", "cet-dst"], dropping blanks and duplicates */
+export function parseComparisonCodes(value: string | string[] | undefined): string[] {
+  const raw = Array.isArray(value) ? value.join(",") : value || "";
+  const codes = raw
+    .split(",")
+    .map((code) => code.trim().toLowerCase())
+    .filter(Boolean);
+  return Array.from(new Set(codes));
+}
+
+/** "?vs=us,jp" for a non-empty list, "" otherwise */
+export function formatComparisonQuery(rows: Pick<Country, "code">[]): string {
+  if (rows.length === 0) return "";
+  return `?vs=${rows.map((row) => encodeURIComponent(row.code.toLowerCase())).join(",")}`;
+}
+
+/** Rebuild a comparison row from its code, exactly as the selector or popular list would add it */
+export function resolveComparison(code: string): Country | null {
+  const lowerCode = code.toLowerCase();
+  const popular = POPULAR_TIMEZONES.find((tz) => tz.code === lowerCode);
+  const zoneInfo = getTimeZoneFromCode(lowerCode);
+  if (!zoneInfo) return null;
+
+  // A bare country code keeps all its zones; "us-la" narrows it to one
+  const isWholeCountry = Boolean(zoneInfo.countryCode) && lowerCode.length === 2;
+
+  return {
+    name: popular ? popular.name : zoneInfo.displayName,
+    code: lowerCode,
+    timezone: zoneInfo.timezone,
+    timezones: isWholeCountry ? getCountryZones(zoneInfo.countryCode!) : [zoneInfo.timezone],
+    flag: zoneInfo.countryCode || "",
+    flagComponent: popular ? popular.flagComponent : zoneInfo.flagComponent,
+  };
+}
+
+/** Resolve a list of codes, skipping any that no longer resolve */
+export function resolveComparisons(codes: string[]): Country[] {
+  return codes
+    .map(resolveComparison)
+    .filter((row): row is Country => row !== null);
+}
+
+/** City labels for link previews: the given rows, or the defaults when there are none */
+export function getPreviewZones(codes: string[]): { label: string; timezone: string }[] {
+  return resolveComparisons(codes.length > 0 ? codes : DEFAULT_COMPARISON_CODES).map((row) => ({
+    label: getZoneCityName(row.timezone),
+    timezone: row.timezone,
+  }));
+}
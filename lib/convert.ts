@@ -0,0 +1,203 @@
+import { DateTime } from "luxon";
+import { describeTransition, resolveLocalTime } from "@/lib/dst";
+import { findOutOfRangeTime, ParsedInput, parseUserInput } from "@/lib/parseInput";
+import { formatDayShift, formatUtcOffset, getDayShift } from "@/lib/timezones";
+
+/** One per failure the page renders a WarningScreen for */
+export type ConversionErrorCode =
+  | "too_short"
+  | "unrecognized"
+  | "invalid_date"
+  | "invalid_time"
+  | "nonexistent_time"
+  | "ambiguous_time";
+
+export interface ConversionError {
+  code: ConversionErrorCode;
+  message: string;
+  /** Present once the input itself parsed */
+  parsed?: ParsedInput;
+  /** Both readings of a skipped or repeated wall time */
+  earlier?: DateTime;
+  later?: DateTime;
+}
+
+/** Which side of a repeated wall time to use */
+export type FoldChoice = "earlier" | "later";
+
+export interface Conversion {
+  parsed: ParsedInput;
+  /** The instant the input names, in the source zone */
+  baseTime: DateTime;
+  /** Set when the wall time happens twice and a side was picked */
+  fold: { chosen: FoldChoice; other: DateTime } | null;
+}
+
+export type ConversionResult = { ok: true; conversion: Conversion } | { ok: false; error: ConversionError };
+
+export interface ConversionOptions {
+  /** Reference for "now" inputs; defaults to the current time */
+  now?: DateTime;
+  at?: FoldChoice | null;
+}
+
+/** JSON-friendly view of an instant in one zone */
+export interface ZonedTimeSummary {
+  local: string;
+  time: string;
+  date: string;
+  weekday: string;
+  offset: string;
+  offsetMinutes: number;
+  /** "PDT", or "GMT+3" where no common abbreviation exists */
+  abbreviation: string;
+  /** Calendar days relative to the source time's date */
+  dayShift: number;
+}
+
+export function parseFoldChoice(value: string | null | undefined): FoldChoice | null {
+  return value === "earlier" || value === "later" ? value : null;
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+/** Resolve a route input ("tr1330", "us0230@20260308", "jstnow") to an instant */
+export function resolveConversion(input: string, options: ConversionOptions = {}): ConversionResult {
+  if (!input || input.length < 3) {
+    return {
+      ok: false,
+      error: {
+        code: "too_short",
+        message: "Your input is too short or incomplete. Please provide a valid code and time.",
+      },
+    };
+  }
+
+  const parsed = parseUserInput(input);
+  if (!parsed) {
+    const badTime = findOutOfRangeTime(input);
+    if (badTime) {
+      return {
+        ok: false,
+        error: {
+          code: "invalid_time",
+          message: `"${badTime}" isn't a valid time: use 00:00 to 23:59, or 1 to 12 with am or pm.`,
+        },
+      };
+    }
+    return {
+      ok: false,
+      error: {
+        code: "unrecognized",
+        message: `Couldn't parse "${input}". Make sure your code is valid and time is HHMM, 2pm, 9:30am, noon, midnight, 'now' or now+2h, optionally followed by a date.`,
+      },
+    };
+  }
+
+  const { zoneInfo, time, datePart } = parsed;
+  const now = options.now || DateTime.now();
+
+  if (time.kind === "now") {
+    const baseTime = now.plus({ minutes: time.offsetMinutes }).setZone(zoneInfo.timezone);
+    return { ok: true, conversion: { parsed, baseTime, fold: null } };
+  }
+
+  const { hour, minute } = time;
+  if (datePart && !DateTime.fromObject(datePart).isValid) {
+    return {
+      ok: false,
+      error: {
+        code: "invalid_date",
+        message: `The date ${datePart.year}-${pad(datePart.month)}-${pad(datePart.day)} doesn't exist on the calendar.`,
+        parsed,
+      },
+    };
+  }
+
+  // Without a pinned date the conversion runs for today in the source zone
+  const day = datePart || now.setZone(zoneInfo.timezone);
+  const resolution = resolveLocalTime({ year: day.year, month: day.month, day: day.day, hour, minute }, zoneInfo.timezone);
+  if (resolution.kind === "valid") {
+    return { ok: true, conversion: { parsed, baseTime: resolution.time, fold: null } };
+  }
+
+  const { earlier, later } = resolution;
+  if (resolution.kind === "ambiguous" && options.at) {
+    const other = options.at === "earlier" ? later : earlier;
+    return { ok: true, conversion: { parsed, baseTime: resolution[options.at], fold: { chosen: options.at, other } } };
+  }
+
+  const wallTime = `${pad(hour)}:${pad(minute)}`;
+  const dayLabel = earlier.toFormat("cccc, d LLLL yyyy", { locale: "en-US" });
+  const change = describeTransition({ offsetBefore: earlier.offset, offsetAfter: later.offset }).toLowerCase();
+  return {
+    ok: false,
+    error:
+      resolution.kind === "nonexistent"
+        ? {
+            code: "nonexistent_time",
+            message: `${wallTime} doesn't exist in ${zoneInfo.displayName} on ${dayLabel}: ${change} that night and skip over it.`,
+            parsed,
+            earlier,
+            later,
+          }
+        : {
+            code: "ambiguous_time",
+            message: `${wallTime} happens twice in ${zoneInfo.displayName} on ${dayLabel}: ${change} that night and repeat it.`,
+            parsed,
+            earlier,
+            later,
+          },
+  };
+}
+
+export function summarizeZonedTime(local: DateTime, base: DateTime): ZonedTimeSummary {
+  return {
+    local: local.toISO() || "",
+    time: local.toFormat("HH:mm"),
+    date: local.toISODate() || "",
+    weekday: local.toFormat("cccc", { locale: "en-US" }),
+    offset: formatUtcOffset(local.offset),
+    offsetMinutes: local.offset,
+    abbreviation: local.toFormat("ZZZZ", { locale: "en-US" }),
+    dayShift: getDayShift(base, local),
+  };
+}
+
+/**
+ * One-line summary for titles and link previews:
+ * "13:30 in Türkiye = 06:30 New York, 19:30 Tokyo"
+ */
+export function summarizeConversion(
+  { parsed, baseTime }: Conversion,
+  targets: { label: string; timezone: string }[]
+): { title: string; description: string } {
+  const { zoneInfo, time, timePart, datePart } = parsed;
+  const others = targets.filter((target) => target.timezone !== zoneInfo.timezone);
+  const converted = others.map((target) => {
+    const local = baseTime.setZone(target.timezone);
+    const shift = getDayShift(baseTime, local);
+    return { ...target, local, shift };
+  });
+
+  const lead =
+    time.kind === "now"
+      ? timePart === "now"
+        ? `Current time in ${zoneInfo.displayName}`
+        : `Now ${timePart} in ${zoneInfo.displayName}`
+      : `${baseTime.toFormat("HH:mm")} in ${zoneInfo.displayName}`;
+  const title = converted.length
+    ? `${lead} = ${converted
+        .map(({ label, local, shift }) => `${local.toFormat("HH:mm")} ${label}${shift ? ` (${formatDayShift(shift)})` : ""}`)
+        .join(", ")}`
+    : lead;
+
+  // Unpinned clock times hold for any day, so only dated or live inputs name one
+  const when = datePart || time.kind === "now" ? ` on ${baseTime.toFormat("cccc, d LLLL yyyy", { locale: "en-US" })}` : "";
+  const source = `${baseTime.toFormat("HH:mm")}${when} in ${zoneInfo.displayName} (${baseTime.toFormat("ZZZZ", { locale: "en-US" })})`;
+  const description = converted.length
+    ? `${source} is ${converted.map(({ label, local }) => `${local.toFormat("ccc HH:mm", { locale: "en-US" })} in ${label}`).join(", ")}.`
+    : `${source}.`;
+
+  return { title, description: `${description} Compare more time zones on Timezone Baby.` };
+}
@@ -0,0 +1,181 @@
+import countriesData from "world-countries";
+
+export interface CountrySearchResult {
+  /** ISO 3166-1 alpha-2, upper case */
+  cca2: string;
+  /** Common English name, as shown in lists */
+  name: string;
+  score: number;
+  /** The spelling that matched ("Deutschland"), or null when it was the common name itself */
+  matchedAlias: string | null;
+  /** The query equals one of the country's names (codes don't count) */
+  exact: boolean;
+}
+
+interface SearchTerm {
+  /** Folded text that is compared against the query */
+  folded: string;
+  words: string[];
+  /** Original text, shown as the matched alias */
+  text: string;
+  weight: number;
+  /** Codes only match exactly, so "de" doesn't find every name containing "de" */
+  isCode: boolean;
+}
+
+interface IndexEntry {
+  cca2: string;
+  name: string;
+  terms: SearchTerm[];
+}
+
+// Letters NFD doesn't decompose into a base letter and a mark
+const LETTER_FOLDS: Record<string, string> = { ı: "i", ß: "ss", ø: "o", æ: "ae", œ: "oe", đ: "d", ł: "l", þ: "th" };
+
+/**
+ * Lowercase, strip diacritics and fold punctuation to single spaces, so
+ * "Côte d'Ivoire", "cote d ivoire" and "COTE D’IVOIRE" compare equal.
+ */
+export function foldSearchText(value: string): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[ıßøæœđłþ]/g, (letter) => LETTER_FOLDS[letter])
+    .replace(/['’`´]/g, "")
+    .replace(/[\s.,()\-_/&]+/g, " ")
+    .trim();
+}
+
+// Sources in order of trust: a hit on the common name beats one on a translation
+const WEIGHTS = {
+  common: 1,
+  code: 0.95,
+  official: 0.9,
+  native: 0.85,
+  alt: 0.8,
+  translation: 0.75,
+  capital: 0.7,
+};
+
+let searchIndex: IndexEntry[] | null = null;
+
+/** Every name, spelling, translation, capital and code of every country, folded once */
+function getSearchIndex(): IndexEntry[] {
+  if (!searchIndex) {
+    searchIndex = countriesData.map((country) => {
+      const seen = new Set<string>();
+      const terms: SearchTerm[] = [];
+      const add = (text: string | undefined, weight: number, isCode = false) => {
+        if (!text) return;
+        const folded = foldSearchText(text);
+        if (!folded || seen.has(folded)) return;
+        seen.add(folded);
+        terms.push({ folded, words: folded.split(" "), text, weight, isCode });
+      };
+
+      add(country.name.common, WEIGHTS.common);
+      add(country.cca2, WEIGHTS.code, true);
+      add(country.cca3, WEIGHTS.code, true);
+      add(country.name.official, WEIGHTS.official);
+      Object.values(country.name.native || {}).forEach((native) => {
+        add(native.common, WEIGHTS.native);
+        add(native.official, WEIGHTS.native);
+      });
+      // Two- and three-letter spellings ("TR", "UK") are codes too
+      country.altSpellings.forEach((alt) =>
+        alt.length <= 3 ? add(alt, WEIGHTS.code, true) : add(alt, WEIGHTS.alt)
+      );
+      Object.values(country.translations).forEach((translation) => {
+        add(translation.common, WEIGHTS.translation);
+        add(translation.official, WEIGHTS.translation);
+      });
+      country.capital.forEach((capital) => add(capital, WEIGHTS.capital));
+
+      return { cca2: country.cca2.toUpperCase(), name: country.name.common, terms };
+    });
+  }
+  return searchIndex;
+}
+
+/** Optimal string alignment distance (Levenshtein plus adjacent swaps), giving up above `max` */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(prev[j] + 1, current[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, prevPrev[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    prevPrev = prev;
+    prev = current;
+  }
+  return prev[b.length];
+}
+
+/** Typos allowed for a query of this length: none below 4 letters, one up to 7, then two */
+const getMaxTypos = (length: number) => (length < 4 ? 0 : length < 8 ? 1 : 2);
+
+/**
+ * How well one term matches the query, 0 for no match. Exact beats prefix,
+ * prefix beats a word prefix, which beats a substring; typos come last and
+ * lose points per edit.
+ */
+function scoreTerm(term: SearchTerm, query: string): number {
+  if (term.folded === query) return 100;
+  if (term.isCode) return 0;
+  if (term.folded.startsWith(query)) return 80;
+  if (term.words.some((word) => word.startsWith(query))) return 65;
+  if (query.length >= 3 && term.folded.includes(query)) return 50;
+
+  const maxTypos = getMaxTypos(query.length);
+  if (maxTypos === 0) return 0;
+  // Compare with the whole term, each word, and the term's start, so half-typed names still match
+  const candidates = [term.folded, ...term.words, term.folded.slice(0, query.length)];
+  const distance = Math.min(...candidates.map((candidate) => editDistance(query, candidate, maxTypos)));
+  return distance <= maxTypos ? 40 - distance * 10 : 0;
+}
+
+/**
+ * Ranked country search over common, official and native names, alternative
+ * spellings, translations, capitals and ISO codes, with diacritic folding and
+ * typo tolerance. An empty query matches nothing.
+ */
+export function searchCountries(query: string, limit = Infinity): CountrySearchResult[] {
+  const folded = foldSearchText(query);
+  if (!folded) return [];
+
+  const results: CountrySearchResult[] = [];
+  getSearchIndex().forEach((entry) => {
+    let best: { score: number; term: SearchTerm } | null = null;
+    for (const term of entry.terms) {
+      const score = scoreTerm(term, folded) * term.weight;
+      if (score > 0 && (!best || score > best.score)) {
+        best = { score, term };
+      }
+    }
+    if (best) {
+      results.push({
+        cca2: entry.cca2,
+        name: entry.name,
+        score: best.score,
+        matchedAlias: best.term.text === entry.name || best.term.isCode ? null : best.term.text,
+        exact: best.term.folded === folded && !best.term.isCode,
+      });
+    }
+  });
+
+  return results
+    .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name))
+    .slice(0, limit);
+}
@@ -0,0 +1,150 @@
+import { DateTime } from "luxon";
+
+/** A change of a zone's UTC offset, e.g. the switch into or out of daylight saving */
+export interface OffsetTransition {
+  /** First instant on the new offset, in the zone itself */
+  at: DateTime;
+  offsetBefore: number;
+  offsetAfter: number;
+}
+
+/** A stretch of the timeline on one offset */
+export interface OffsetSegment {
+  start: DateTime;
+  end: DateTime;
+  offset: number;
+  /** Ahead of the zone's lowest offset in the range, i.e. summer time */
+  isDst: boolean;
+}
+
+const SCAN_STEP_HOURS = 24;
+
+const offsetAt = (timezone: string, millis: number) =>
+  DateTime.fromMillis(millis, { zone: timezone }).offset;
+
+/** Narrow a day that contains an offset change down to the minute */
+function bisectTransition(timezone: string, lowMillis: number, highMillis: number): OffsetTransition {
+  const offsetBefore = offsetAt(timezone, lowMillis);
+  let low = lowMillis;
+  let high = highMillis;
+  while (high - low > 60_000) {
+    const mid = low + Math.floor((high - low) / 120_000) * 60_000;
+    if (offsetAt(timezone, mid) === offsetBefore) low = mid;
+    else high = mid;
+  }
+  return {
+    at: DateTime.fromMillis(high, { zone: timezone }),
+    offsetBefore,
+    offsetAfter: offsetAt(timezone, high),
+  };
+}
+
+/** Every offset change of `timezone` between two instants, oldest first */
+export function findTransitions(timezone: string, from: DateTime, to: DateTime): OffsetTransition[] {
+  const transitions: OffsetTransition[] = [];
+  const step = SCAN_STEP_HOURS * 3_600_000;
+  const end = to.toMillis();
+
+  for (let low = from.toMillis(); low < end; low += step) {
+    const high = Math.min(low + step, end);
+    if (offsetAt(timezone, low) !== offsetAt(timezone, high)) {
+      transitions.push(bisectTransition(timezone, low, high));
+    }
+  }
+  return transitions;
+}
+
+/** The first offset change after `from`, looking at most a year ahead */
+export function getNextTransition(timezone: string, from: DateTime): OffsetTransition | null {
+  return findTransitions(timezone, from, from.plus({ years: 1 }))[0] || null;
+}
+
+/** The last offset change before `from`, looking at most a year back */
+export function getPreviousTransition(timezone: string, from: DateTime): OffsetTransition | null {
+  const transitions = findTransitions(timezone, from.minus({ years: 1 }), from);
+  return transitions[transitions.length - 1] || null;
+}
+
+/** Split the range into stretches of constant offset, for drawing a timeline */
+export function getOffsetSegments(timezone: string, from: DateTime, to: DateTime): OffsetSegment[] {
+  const transitions = findTransitions(timezone, from, to);
+  const boundaries = [from.setZone(timezone), ...transitions.map((t) => t.at), to.setZone(timezone)];
+  const offsets = [offsetAt(timezone, from.toMillis()), ...transitions.map((t) => t.offsetAfter)];
+  const standardOffset = Math.min(...offsets);
+
+  return offsets.map((offset, i) => ({
+    start: boundaries[i],
+    end: boundaries[i + 1],
+    offset,
+    isDst: offset > standardOffset,
+  }));
+}
+
+export interface UpcomingTransition extends OffsetTransition {
+  label: string;
+  timezone: string;
+}
+
+/** Offset changes within `days` of `from` across several zones, soonest first; repeated zones count once */
+export function getUpcomingTransitions(
+  zones: { label: string; timezone: string }[],
+  from: DateTime,
+  days = 14
+): UpcomingTransition[] {
+  const to = from.plus({ days });
+  return zones
+    .filter((zone, i) => zones.findIndex((z) => z.timezone === zone.timezone) === i)
+    .flatMap((zone) =>
+      findTransitions(zone.timezone, from, to).map((transition) => ({ ...transition, ...zone }))
+    )
+    .sort((a, b) => a.at.toMillis() - b.at.toMillis());
+}
+
+/** "Clocks go forward 1h" / "Clocks go back 30 min" */
+export function describeTransition({
+  offsetBefore,
+  offsetAfter,
+}: Pick<OffsetTransition, "offsetBefore" | "offsetAfter">): string {
+  const diff = Math.abs(offsetAfter - offsetBefore);
+  const amount = diff % 60 === 0 ? `${diff / 60}h` : `${diff} min`;
+  return `Clocks go ${offsetAfter > offsetBefore ? "forward" : "back"} ${amount}`;
+}
+
+export interface LocalTimeFields {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+/**
+ * How a wall-clock time maps onto instants in a zone. Around an offset change
+ * a time can be skipped (spring forward) or happen twice (fall back); both
+ * cases carry the instant on either side instead of luxon's silent shift.
+ */
+export type LocalTimeResolution =
+  | { kind: "valid"; time: DateTime }
+  | { kind: "nonexistent" | "ambiguous"; earlier: DateTime; later: DateTime };
+
+export function resolveLocalTime(fields: LocalTimeFields, timezone: string): LocalTimeResolution {
+  const wallMillis = Date.UTC(fields.year, fields.month - 1, fields.day, fields.hour, fields.minute);
+  // Offsets a day either side cover any single transition on this date
+  const candidateOffsets = Array.from(
+    new Set([offsetAt(timezone, wallMillis - 86_400_000), offsetAt(timezone, wallMillis + 86_400_000)])
+  );
+  const instants = candidateOffsets.map((offset) => wallMillis - offset * 60_000);
+  const matches = instants.filter((millis, i) => offsetAt(timezone, millis) === candidateOffsets[i]);
+
+  if (matches.length === 1) {
+    return { kind: "valid", time: DateTime.fromMillis(matches[0], { zone: timezone }) };
+  }
+
+  // No match: the time was skipped. Two matches: it happens twice.
+  const pool = matches.length === 0 ? instants : matches;
+  return {
+    kind: matches.length === 0 ? "nonexistent" : "ambiguous",
+    earlier: DateTime.fromMillis(Math.min(...pool), { zone: timezone }),
+    later: DateTime.fromMillis(Math.max(...pool), { zone: timezone }),
+  };
+}
@@ -0,0 +1,124 @@
+import { DateTime } from "luxon";
+import { getOffsetSegments, getPreviousTransition } from "@/lib/dst";
+
+export interface CalendarEvent {
+  /** Start of the event; its zone becomes the event's TZID */
+  start: DateTime;
+  durationMinutes: number;
+  title: string;
+  description?: string;
+  url?: string;
+}
+
+export const DEFAULT_EVENT_TITLE = "Meeting";
+export const DEFAULT_EVENT_DURATION = 60;
+
+const LOCAL_FORMAT = "yyyyMMdd'T'HHmmss";
+
+// Start of the only part of a zone that hasn't changed offset in the last year
+const NO_CHANGE_START = "19700101T000000";
+
+/** RFC 5545 text escaping */
+function escapeText(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+/** Fold a content line at 75 octets, continuing with a leading space */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? 75 : 74;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+/** -240 -> "-0400" */
+function formatIcsOffset(offset: number): string {
+  const sign = offset < 0 ? "-" : "+";
+  const abs = Math.abs(offset);
+  return `${sign}${String(Math.floor(abs / 60)).padStart(2, "0")}${String(abs % 60).padStart(2, "0")}`;
+}
+
+/** "UTC+9:30" -> "UTC+0930": a colon would end the TZID parameter early */
+function getTzid(timezone: string): string {
+  return timezone.replace(
+    /^UTC([+-])(\d{1,2})(?::(\d{2}))?$/,
+    (_, sign: string, hours: string, minutes = "00") => `UTC${sign}${hours.padStart(2, "0")}${minutes}`
+  );
+}
+
+/**
+ * VTIMEZONE for the zone, listing every offset change from a year before
+ * the event to a year after it, so calendars without tz data agree.
+ */
+export function buildVTimezone(timezone: string, around: DateTime): string[] {
+  const segments = getOffsetSegments(timezone, around.minus({ years: 1 }), around.plus({ years: 1 }));
+  const lines = ["BEGIN:VTIMEZONE", `TZID:${getTzid(timezone)}`];
+  // The first part starts at the real change before the window, not at the window's edge
+  const previous = getPreviousTransition(timezone, segments[0].start);
+
+  segments.forEach((segment, i) => {
+    const changeAt = i === 0 ? previous?.at : segment.start;
+    const offsetFrom = i === 0 ? previous?.offsetBefore ?? segment.offset : segments[i - 1].offset;
+    // DTSTART is the wall time the change happens at, on the clock before it
+    const wallStart = changeAt ? changeAt.toUTC().plus({ minutes: offsetFrom }).toFormat(LOCAL_FORMAT) : NO_CHANGE_START;
+    const kind = segment.isDst ? "DAYLIGHT" : "STANDARD";
+    lines.push(
+      `BEGIN:${kind}`,
+      `DTSTART:${wallStart}`,
+      `TZOFFSETFROM:${formatIcsOffset(offsetFrom)}`,
+      `TZOFFSETTO:${formatIcsOffset(segment.offset)}`,
+      `TZNAME:${segment.start.toFormat("ZZZZ", { locale: "en-US" })}`,
+      `END:${kind}`
+    );
+  });
+
+  lines.push("END:VTIMEZONE");
+  return lines;
+}
+
+/** A complete .ics file with one event, CRLF-terminated */
+export function buildIcsCalendar({ start, durationMinutes, title, description, url }: CalendarEvent): string {
+  const timezone = start.zoneName || "UTC";
+  const tzid = getTzid(timezone);
+  const end = start.plus({ minutes: durationMinutes });
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Timezone Baby//Calendar Export//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    ...buildVTimezone(timezone, start),
+    "BEGIN:VEVENT",
+    `UID:${start.toUTC().toFormat(LOCAL_FORMAT)}Z-${durationMinutes}-${timezone.replace(/[^A-Za-z0-9]/g, "")}@timezonebaby`,
+    `DTSTAMP:${DateTime.utc().toFormat(LOCAL_FORMAT)}Z`,
+    `DTSTART;TZID=${tzid}:${start.toFormat(LOCAL_FORMAT)}`,
+    `DTEND;TZID=${tzid}:${end.toFormat(LOCAL_FORMAT)}`,
+    `SUMMARY:${escapeText(title)}`,
+    ...(description ? [`DESCRIPTION:${escapeText(description)}`] : []),
+    ...(url ? [`URL:${url}`] : []),
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ];
+
+  return `${lines.map(foldLine).join("\r\n")}\r\n`;
+}
+
+/** "tr1330" -> "tr1330.ics", keeping the name filesystem friendly */
+export function getIcsFileName(input: string): string {
+  return `${input.replace(/[^A-Za-z0-9+_-]/g, "_") || "event"}.ics`;
+}
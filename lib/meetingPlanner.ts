@@ -0,0 +1,141 @@
+import { DateTime } from "luxon";
+
+/** Working window in local wall-clock hours, end exclusive */
+export interface WorkingHours {
+  start: number;
+  end: number;
+}
+
+export const DEFAULT_WORKING_HOURS: WorkingHours = { start: 9, end: 18 };
+
+/** Meeting lengths offered by the finder and the calendar export */
+export const MEETING_DURATIONS = [
+  { minutes: 30, label: "30 min" },
+  { minutes: 45, label: "45 min" },
+  { minutes: 60, label: "1 hour" },
+  { minutes: 90, label: "1.5 hours" },
+  { minutes: 120, label: "2 hours" },
+];
+
+export interface PlannerZone {
+  label: string;
+  timezone: string;
+  workingHours?: WorkingHours;
+}
+
+export interface PlannerCell {
+  local: DateTime;
+  working: boolean;
+}
+
+export interface PlannerSlot {
+  /** Wall-clock hour of the slot in the base zone; matches `start` except in an hour a clock change skips */
+  hour: number;
+  start: DateTime;
+  /** One cell per zone, in the order the zones were given */
+  cells: PlannerCell[];
+  /** Every zone is inside its working hours */
+  overlap: boolean;
+}
+
+/** Whether a slot of `minutes` starting at `local` fits inside the working window */
+export function isWithinWorkingHours(
+  local: DateTime,
+  hours: WorkingHours = DEFAULT_WORKING_HOURS,
+  minutes = 60
+): boolean {
+  const start = local.hour * 60 + local.minute;
+  return start >= hours.start * 60 && start + minutes <= hours.end * 60;
+}
+
+/**
+ * One slot per wall-clock hour of `day` in the base zone, with each zone's
+ * local time. `day` must already be in the base zone; only its calendar date
+ * is used. An hour skipped by a clock change starts at the first valid time.
+ */
+export function buildPlannerSlots(day: DateTime, zones: PlannerZone[]): PlannerSlot[] {
+  const startOfDay = day.startOf("day");
+
+  return Array.from({ length: 24 }, (_, hour) => {
+    const start = startOfDay.set({ hour });
+    const cells = zones.map((zone) => {
+      const local = start.setZone(zone.timezone);
+      return { local, working: isWithinWorkingHours(local, zone.workingHours) };
+    });
+    return { hour, start, cells, overlap: cells.length > 0 && cells.every((c) => c.working) };
+  });
+}
+
+export interface MeetingSuggestion {
+  start: DateTime;
+  /** Local start of the meeting in each zone, in the order the zones were given */
+  locals: DateTime[];
+  /** Per zone, minutes the meeting spends outside that zone's working hours */
+  minutesOutside: number[];
+  participantsInside: number;
+  totalMinutesOutside: number;
+}
+
+/**
+ * Minutes a meeting starting at `local` spends outside the working window,
+ * plus how far it sits from the window when it misses it entirely.
+ */
+export function getMinutesOutside(local: DateTime, hours: WorkingHours, minutes: number): number {
+  const start = local.hour * 60 + local.minute;
+  const end = start + minutes;
+
+  // The meeting may run past midnight, so compare against yesterday's and tomorrow's window too
+  let best = Infinity;
+  for (const shift of [-1440, 0, 1440]) {
+    const windowStart = hours.start * 60 + shift;
+    const windowEnd = hours.end * 60 + shift;
+    const overlap = Math.max(0, Math.min(end, windowEnd) - Math.max(start, windowStart));
+    const gap = overlap > 0 ? 0 : Math.min(Math.abs(windowStart - end), Math.abs(start - windowEnd));
+    best = Math.min(best, minutes - overlap + gap);
+  }
+  return best;
+}
+
+/**
+ * Rank meeting start times on `day` (base zone) every `stepMinutes`: most
+ * participants inside working hours first, then least time outside for the
+ * rest, then earliest start.
+ */
+export function findBestMeetingSlots(
+  day: DateTime,
+  zones: PlannerZone[],
+  durationMinutes: number,
+  stepMinutes = 30,
+  limit = 5
+): MeetingSuggestion[] {
+  const startOfDay = day.startOf("day");
+  const suggestions: MeetingSuggestion[] = [];
+
+  // Wall-clock starts, so a DST day still runs 00:00 to 23:30; times a clock change skips are left out
+  for (let offset = 0; offset < 24 * 60; offset += stepMinutes) {
+    const hour = Math.floor(offset / 60);
+    const minute = offset % 60;
+    const start = startOfDay.set({ hour, minute });
+    if (start.hour !== hour || start.minute !== minute) continue;
+    const locals = zones.map((zone) => start.setZone(zone.timezone));
+    const minutesOutside = locals.map((local, i) =>
+      getMinutesOutside(local, zones[i].workingHours || DEFAULT_WORKING_HOURS, durationMinutes)
+    );
+    suggestions.push({
+      start,
+      locals,
+      minutesOutside,
+      participantsInside: minutesOutside.filter((m) => m === 0).length,
+      totalMinutesOutside: minutesOutside.reduce((sum, m) => sum + m, 0),
+    });
+  }
+
+  return suggestions
+    .sort(
+      (a, b) =>
+        b.participantsInside - a.participantsInside ||
+        a.totalMinutesOutside - b.totalMinutesOutside ||
+        a.start.toMillis() - b.start.toMillis()
+    )
+    .slice(0, limit);
+}
@@ -0,0 +1,133 @@
+import { getTimeZoneFromCode, ZoneInfo } from "@/lib/timezones";
+import { formatTimeToken, isOutOfRangeClock, parseTimeExpression, TimeSpec } from "@/lib/parseTime";
+
+/** Calendar date pinned by the route, e.g. "-2026-11-03" or "@20261103" */
+export interface DatePart {
+  year: number;
+  month: number;
+  day: number;
+}
+
+export interface ParsedInput {
+  codePart: string;
+  /** Canonical time token: "1330", "now", "+2h" */
+  timePart: string;
+  time: TimeSpec;
+  datePart: DatePart | null;
+  zoneInfo: ZoneInfo;
+  /** Zones named after "-to-" or ">" ("jst1500-to-tr,us"), lowercased */
+  targetCodes: string[];
+}
+
+/** Split an optional "-to-tr,us" / ">tr" suffix off the input */
+export function splitTargetSuffix(input: string): { rest: string; targetCodes: string[] } {
+  const match = input.match(/^(.+?)(?:-to-|>)(.+)$/i);
+  if (!match) {
+    return { rest: input, targetCodes: [] };
+  }
+
+  const targetCodes = match[2]
+    .split(",")
+    .map((code) => code.trim().toLowerCase())
+    .filter(Boolean);
+  return { rest: match[1], targetCodes: Array.from(new Set(targetCodes)) };
+}
+
+/** "-to-tr,us" for a list of target codes, "" otherwise */
+export function formatTargetSuffix(targetCodes: string[]): string {
+  if (targetCodes.length === 0) return "";
+  return `-to-${targetCodes.map(encodeURIComponent).join(",")}`;
+}
+
+/** Split an optional "-YYYY-MM-DD" / "@YYYYMMDD" suffix off the input */
+export function splitDateSuffix(input: string): { rest: string; datePart: DatePart | null } {
+  const match = input.match(/^(.+?)[-@]((?:19|20)\d{2})-?(0[1-9]|1[0-2])-?(0[1-9]|[12]\d|3[01])$/);
+  if (!match) {
+    return { rest: input, datePart: null };
+  }
+
+  return {
+    rest: match[1],
+    datePart: {
+      year: parseInt(match[2], 10),
+      month: parseInt(match[3], 10),
+      day: parseInt(match[4], 10),
+    },
+  };
+}
+
+/** "@20261103" for a pinned date, "" otherwise */
+export function formatDateSuffix(datePart: DatePart | null): string {
+  if (!datePart) return "";
+  return `@${datePart.year}${String(datePart.month).padStart(2, "0")}${String(datePart.day).padStart(2, "0")}`;
+}
+
+/** Route path for a code and time, with a "_" when the code itself ends in a digit (utc+0530_1330) */
+export function formatRoute(
+  code: string,
+  time: TimeSpec,
+  datePart: DatePart | null = null,
+  targetCodes: string[] = []
+): string {
+  const separator = /\d$/.test(code) ? "_" : "";
+  return `/${encodeURIComponent(code.toLowerCase())}${separator}${formatTimeToken(time)}${formatDateSuffix(datePart)}${formatTargetSuffix(targetCodes)}`;
+}
+
+/** Decode a route segment ("@" may arrive percent-encoded), falling back to the raw value on malformed escapes */
+export function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Parse a route like "tr1330", "us2pm", "cetnoon", "jst+2h", "utc+0530now@20261103"
+ * or "jst1500-to-tr". Every target code has to resolve for the route to parse.
+ */
+export function parseUserInput(input: string): ParsedInput | null {
+  const { rest: source, targetCodes } = splitTargetSuffix(input.trim());
+  if (targetCodes.some((code) => !getTimeZoneFromCode(code))) return null;
+
+  const { rest, datePart } = splitDateSuffix(source);
+  const parsed = parseCodeAndTime(rest, datePart, targetCodes);
+  // "utc-12001130" looks like a date suffix but is an offset followed by a time
+  return parsed || (datePart ? parseCodeAndTime(source, null, targetCodes) : null);
+}
+
+/**
+ * Try every split of the input into code + time, shortest code first, and
+ * keep the first whose code resolves. An optional "_" separates codes that
+ * end in digits from the time: gmt-3_0900.
+ */
+function parseCodeAndTime(rest: string, datePart: DatePart | null, targetCodes: string[]): ParsedInput | null {
+  for (let i = 1; i < rest.length; i++) {
+    const time = parseTimeExpression(rest.slice(i).replace(/^_/, ""));
+    if (!time) continue;
+
+    // A pinned date only makes sense together with a clock time
+    if (time.kind === "now" && datePart) continue;
+
+    const codePart = rest.slice(0, i).toUpperCase();
+    const zoneInfo = getTimeZoneFromCode(codePart);
+    if (zoneInfo) {
+      return { codePart, timePart: formatTimeToken(time), time, datePart, zoneInfo, targetCodes };
+    }
+  }
+
+  return null;
+}
+
+/** "tr2500" -> "2500": the time of an input whose code resolves but whose clock time can't exist */
+export function findOutOfRangeTime(input: string): string | null {
+  const { rest: source } = splitTargetSuffix(input.trim());
+  const { rest } = splitDateSuffix(source);
+  for (let i = 1; i < rest.length; i++) {
+    const timeText = rest.slice(i).replace(/^_/, "");
+    if (isOutOfRangeClock(timeText) && getTimeZoneFromCode(rest.slice(0, i).toUpperCase())) {
+      return timeText;
+    }
+  }
+  return null;
+}
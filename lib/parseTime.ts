@@ -0,0 +1,96 @@
+/** A clock time ("1330", "2pm", "noon") or the live time shifted by some minutes ("now", "+2h") */
+export type TimeSpec =
+  | { kind: "clock"; hour: number; minute: number }
+  | { kind: "now"; offsetMinutes: number };
+
+const NOW_PATTERN = /^now$/;
+const HHMM_PATTERN = /^(\d{2})(\d{2})$/;
+const COLON_PATTERN = /^(\d{1,2}):(\d{2})$/;
+const MERIDIEM_PATTERN = /^(\d{1,2})(?::?(\d{2}))?\s?(am|pm)$/;
+const RELATIVE_PATTERN = /^(?:now)?\s?([+-])\s?(?:(\d{1,3})h)?(?:(\d{1,4})m(?:in)?)?$/;
+
+const NAMED_TIMES: Record<string, { hour: number; minute: number }> = {
+  noon: { hour: 12, minute: 0 },
+  midday: { hour: 12, minute: 0 },
+  midnight: { hour: 0, minute: 0 },
+};
+
+function clock(hour: number, minute: number): TimeSpec | null {
+  if (hour > 23 || minute > 59) return null;
+  return { kind: "clock", hour, minute };
+}
+
+/**
+ * Parse a time expression as typed in the route or a form: "1330", "13:30",
+ * "2pm", "9:30am", "noon", "midnight", "now", "now+2h", "+1h30m", "-45m".
+ * Returns null when the text is not a valid time.
+ */
+export function parseTimeExpression(text: string): TimeSpec | null {
+  const value = text.trim().toLowerCase();
+
+  if (NOW_PATTERN.test(value)) {
+    return { kind: "now", offsetMinutes: 0 };
+  }
+
+  if (NAMED_TIMES[value]) {
+    return clock(NAMED_TIMES[value].hour, NAMED_TIMES[value].minute);
+  }
+
+  const hhmm = value.match(HHMM_PATTERN) || value.match(COLON_PATTERN);
+  if (hhmm) {
+    return clock(parseInt(hhmm[1], 10), parseInt(hhmm[2], 10));
+  }
+
+  const meridiem = value.match(MERIDIEM_PATTERN);
+  if (meridiem) {
+    const hour = parseInt(meridiem[1], 10);
+    const minute = meridiem[2] ? parseInt(meridiem[2], 10) : 0;
+    if (hour < 1 || hour > 12) return null;
+    // 12am is midnight, 12pm is noon
+    return clock((hour % 12) + (meridiem[3] === "pm" ? 12 : 0), minute);
+  }
+
+  const relative = value.match(RELATIVE_PATTERN);
+  if (relative && (relative[2] || relative[3])) {
+    const minutes = parseInt(relative[2] || "0", 10) * 60 + parseInt(relative[3] || "0", 10);
+    return { kind: "now", offsetMinutes: relative[1] === "-" ? -minutes : minutes };
+  }
+
+  return null;
+}
+
+/**
+ * Whether the text is shaped like a clock time but names one that doesn't
+ * exist: "2500", "13:75", "13pm". Lets callers say "invalid time" instead of
+ * "unrecognized".
+ */
+export function isOutOfRangeClock(text: string): boolean {
+  const value = text.trim().toLowerCase();
+
+  const hhmm = value.match(HHMM_PATTERN) || value.match(COLON_PATTERN);
+  if (hhmm) {
+    return clock(parseInt(hhmm[1], 10), parseInt(hhmm[2], 10)) === null;
+  }
+
+  const meridiem = value.match(MERIDIEM_PATTERN);
+  if (meridiem) {
+    const hour = parseInt(meridiem[1], 10);
+    const minute = meridiem[2] ? parseInt(meridiem[2], 10) : 0;
+    return hour < 1 || hour > 12 || minute > 59;
+  }
+
+  return false;
+}
+
+/** Canonical route token for a time: "1330", "now", "+2h", "-1h30m" */
+export function formatTimeToken(spec: TimeSpec): string {
+  if (spec.kind === "clock") {
+    return `${String(spec.hour).padStart(2, "0")}${String(spec.minute).padStart(2, "0")}`;
+  }
+  if (spec.offsetMinutes === 0) return "now";
+
+  const abs = Math.abs(spec.offsetMinutes);
+  const hours = Math.floor(abs / 60);
+  const minutes = abs % 60;
+  return `${spec.offsetMinutes < 0 ? "-" : "+"}${hours ? `${hours}h` : ""}${minutes ? `${minutes}m` : ""}`;
+}
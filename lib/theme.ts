@@ -0,0 +1,88 @@
+import { createTheme } from "@mui/material/styles";
+
+/** Dark theme shared by the home and help pages */
+export const darkTheme = createTheme({
+  palette: {
+    mode: "dark",
+    primary: {
+      main: "#1a73e8",
+      light: "#4285f4",
+      dark: "#0d47a1",
+    },
+    secondary: {
+      main: "#5f6368",
+    },
+    background: {
+      default: "#121212", // Dark gradient simulation via Box
+      paper: "#1e1e1e",
+    },
+    text: {
+      primary: "#ffffff",
+      secondary: "#b3b3b3",
+    },
+    divider: "#333333",
+  },
+  shape: {
+    borderRadius: 8,
+  },
+  typography: {
+    fontFamily: "'Inter', 'Segoe UI', system-ui, sans-serif",
+    h1: {
+      fontSize: "2.5rem",
+      fontWeight: 700,
+      lineHeight: 1.2,
+    },
+    body1: {
+      fontSize: "1rem",
+      lineHeight: 1.6,
+    },
+  },
+  components: {
+    MuiPaper: {
+      styleOverrides: {
+        root: {
+          backgroundColor: "rgba(30, 30, 30, 0.8)",
+          backdropFilter: "blur(10px)",
+        },
+      },
+    },
+    MuiButton: {
+      styleOverrides: {
+        root: {
+          borderRadius: 8,
+          textTransform: "none",
+          fontWeight: 600,
+          fontSize: "0.875rem",
+          padding: "12px 24px",
+        },
+        contained: {
+          backgroundColor: "#1a73e8",
+          color: "white",
+          "&:hover": {
+            backgroundColor: "#0d47a1",
+            transform: "scale(1.05)",
+          },
+        },
+      },
+    },
+    MuiTextField: {
+      styleOverrides: {
+        root: {
+          "& .MuiOutlinedInput-root": {
+            borderRadius: 8,
+            backgroundColor: "#121212",
+            "& fieldset": {
+              borderColor: "#333333",
+            },
+            "&:hover fieldset": {
+              borderColor: "#555555",
+            },
+            "&.Mui-focused fieldset": {
+              borderColor: "#1a73e8",
+            },
+          },
+        },
+      },
+    },
+  },
+});
@@ -0,0 +1,404 @@
+import React from "react";
+import countriesData from "world-countries";
+import moment from "moment-timezone";
+import { DateTime, FixedOffsetZone } from "luxon";
+import { getCountryForTimezone, getTimezone } from "countries-and-timezones";
+import * as Flags from "country-flag-icons/react/3x2";
+import { GlobeAltIcon } from "@heroicons/react/24/outline";
+import { AbbreviationMatch, matchAbbreviation } from "@/lib/abbreviations";
+
+// FlagComponent type
+type FlagComponent = React.ComponentType<{ className?: string; title?: string }>;
+
+export interface ZoneInfo {
+  timezone: string;
+  displayName: string;
+  flagComponent: React.ReactNode;
+  /** ISO code of the country the route code named, if it named one */
+  countryCode?: string;
+  /** Set when the route code was a timezone abbreviation */
+  abbreviation?: AbbreviationMatch;
+}
+
+/** Zone used when a multi-zone country is given without picking one (usually the capital's) */
+const PRIMARY_COUNTRY_ZONES: Record<string, string> = {
+  AR: "America/Argentina/Buenos_Aires",
+  AU: "Australia/Sydney",
+  BR: "America/Sao_Paulo",
+  CA: "America/Toronto",
+  CD: "Africa/Kinshasa",
+  CL: "America/Santiago",
+  CN: "Asia/Shanghai",
+  CY: "Asia/Nicosia",
+  DE: "Europe/Berlin",
+  EC: "America/Guayaquil",
+  ES: "Europe/Madrid",
+  FM: "Pacific/Pohnpei",
+  GL: "America/Nuuk",
+  ID: "Asia/Jakarta",
+  KI: "Pacific/Tarawa",
+  KZ: "Asia/Almaty",
+  MH: "Pacific/Majuro",
+  MN: "Asia/Ulaanbaatar",
+  MX: "America/Mexico_City",
+  MY: "Asia/Kuala_Lumpur",
+  NZ: "Pacific/Auckland",
+  PF: "Pacific/Tahiti",
+  PG: "Pacific/Port_Moresby",
+  PT: "Europe/Lisbon",
+  RU: "Europe/Moscow",
+  US: "America/New_York",
+  UZ: "Asia/Tashkent",
+};
+
+/** Well-known cities that are not IANA zone names themselves */
+const CITY_ALIASES: Record<string, { name: string; timezone: string }> = {
+  abudhabi: { name: "Abu Dhabi", timezone: "Asia/Dubai" },
+  ankara: { name: "Ankara", timezone: "Europe/Istanbul" },
+  atlanta: { name: "Atlanta", timezone: "America/New_York" },
+  austin: { name: "Austin", timezone: "America/Chicago" },
+  bangalore: { name: "Bangalore", timezone: "Asia/Kolkata" },
+  barcelona: { name: "Barcelona", timezone: "Europe/Madrid" },
+  beijing: { name: "Beijing", timezone: "Asia/Shanghai" },
+  bengaluru: { name: "Bengaluru", timezone: "Asia/Kolkata" },
+  boston: { name: "Boston", timezone: "America/New_York" },
+  canberra: { name: "Canberra", timezone: "Australia/Sydney" },
+  dallas: { name: "Dallas", timezone: "America/Chicago" },
+  delhi: { name: "Delhi", timezone: "Asia/Kolkata" },
+  frankfurt: { name: "Frankfurt", timezone: "Europe/Berlin" },
+  geneva: { name: "Geneva", timezone: "Europe/Zurich" },
+  guangzhou: { name: "Guangzhou", timezone: "Asia/Shanghai" },
+  hamburg: { name: "Hamburg", timezone: "Europe/Berlin" },
+  hanoi: { name: "Hanoi", timezone: "Asia/Ho_Chi_Minh" },
+  houston: { name: "Houston", timezone: "America/Chicago" },
+  izmir: { name: "Izmir", timezone: "Europe/Istanbul" },
+  kyoto: { name: "Kyoto", timezone: "Asia/Tokyo" },
+  miami: { name: "Miami", timezone: "America/New_York" },
+  milan: { name: "Milan", timezone: "Europe/Rome" },
+  montreal: { name: "Montreal", timezone: "America/Toronto" },
+  mumbai: { name: "Mumbai", timezone: "Asia/Kolkata" },
+  munich: { name: "Munich", timezone: "Europe/Berlin" },
+  newdelhi: { name: "New Delhi", timezone: "Asia/Kolkata" },
+  nyc: { name: "New York", timezone: "America/New_York" },
+  osaka: { name: "Osaka", timezone: "Asia/Tokyo" },
+  ottawa: { name: "Ottawa", timezone: "America/Toronto" },
+  philadelphia: { name: "Philadelphia", timezone: "America/New_York" },
+  riodejaneiro: { name: "Rio de Janeiro", timezone: "America/Sao_Paulo" },
+  sanfrancisco: { name: "San Francisco", timezone: "America/Los_Angeles" },
+  seattle: { name: "Seattle", timezone: "America/Los_Angeles" },
+  shenzhen: { name: "Shenzhen", timezone: "Asia/Shanghai" },
+  stpetersburg: { name: "St. Petersburg", timezone: "Europe/Moscow" },
+  telaviv: { name: "Tel Aviv", timezone: "Asia/Jerusalem" },
+  washington: { name: "Washington, D.C.", timezone: "America/New_York" },
+};
+
+/** Lowercase and drop separators, keeping a sign only when it precedes a digit (Etc/GMT-5) */
+export function normalizeZoneKey(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9+-]/g, "")
+    .replace(/[+-](?!\d)/g, "");
+}
+
+interface ZoneIndexEntry {
+  name: string;
+  segments: string[];
+  canonical: boolean;
+}
+
+let zoneIndex: ZoneIndexEntry[] | null = null;
+
+/** Every IANA name known to moment-timezone, with its normalized path segments */
+function getZoneIndex(): ZoneIndexEntry[] {
+  if (!zoneIndex) {
+    zoneIndex = moment.tz.names().map((name) => {
+      const info = getTimezone(name);
+      return {
+        name,
+        segments: name.split("/").map(normalizeZoneKey),
+        canonical: !info?.aliasOf && !info?.deprecated,
+      };
+    });
+  }
+  return zoneIndex;
+}
+
+/**
+ * Match a route code against IANA identifiers. The code may be the full id
+ * ("europe-berlin") or any trailing part of it ("new_york", "tokyo").
+ * Full ids win; trailing matches prefer canonical zones, then shorter ids,
+ * then alphabetical order, so the same code always picks the same zone.
+ */
+export function findIanaZones(code: string): string[] {
+  const key = normalizeZoneKey(code);
+  if (!key) return [];
+
+  const matches: { name: string; rank: number[] }[] = [];
+  getZoneIndex().forEach((entry) => {
+    for (let start = 0; start < entry.segments.length; start++) {
+      if (entry.segments.slice(start).join("") === key) {
+        matches.push({
+          name: entry.name,
+          rank: [start === 0 ? 0 : 1, entry.canonical ? 0 : 1, entry.segments.length],
+        });
+        break;
+      }
+    }
+  });
+
+  return matches
+    .sort((a, b) => {
+      for (let i = 0; i < a.rank.length; i++) {
+        if (a.rank[i] !== b.rank[i]) return a.rank[i] - b.rank[i];
+      }
+      return a.name.localeCompare(b.name);
+    })
+    .map((m) => m.name);
+}
+
+/** Flag of the country a zone belongs to, or a globe for zones without one */
+function getZoneFlag(timezone: string): React.ReactNode {
+  const country = getCountryForTimezone(timezone);
+  const FlagComponent = country
+    ? (Flags[country.id as keyof typeof Flags] as FlagComponent | undefined)
+    : undefined;
+  return FlagComponent ? <FlagComponent className="w-6 h-4" /> : <GlobeAltIcon className="w-6 h-4 text-blue-500" />;
+}
+
+/** "America/Argentina/Buenos_Aires" -> "Buenos Aires" */
+export function getZoneCityName(timezone: string): string {
+  const segments = timezone.split("/");
+  return segments[segments.length - 1].replace(/_/g, " ");
+}
+
+/**
+ * All zones of a country, primary zone first. moment-timezone also lists
+ * zones that merely apply there (Asia/Tokyo for AU, Europe/Zurich for DE),
+ * so those are dropped unless the country has no zone of its own.
+ */
+export function getCountryZones(countryCode: string): string[] {
+  const upperCode = countryCode.toUpperCase();
+  const zones = moment.tz.zonesForCountry(upperCode) || [];
+  const ownZones = zones.filter((tz) => getCountryForTimezone(tz)?.id === upperCode);
+  const candidates = ownZones.length > 0 ? ownZones : zones;
+
+  const primary = PRIMARY_COUNTRY_ZONES[upperCode];
+  if (primary && candidates.includes(primary)) {
+    return [primary, ...candidates.filter((tz) => tz !== primary)];
+  }
+  return candidates;
+}
+
+/** "Los_Angeles" -> ["los", "angeles"] */
+function getCityWords(timezone: string): string[] {
+  const segments = timezone.split("/");
+  return segments[segments.length - 1]
+    .toLowerCase()
+    .split(/[_-]/)
+    .map(normalizeZoneKey)
+    .filter(Boolean);
+}
+
+/**
+ * Short URL key for a zone inside its country: initials for multi-word
+ * cities when they are unique there ("la", "ny"), else the city name.
+ */
+export function getZoneShortCode(countryCode: string, timezone: string): string {
+  const words = getCityWords(timezone);
+  const initials = words.map((w) => w[0]).join("");
+  if (words.length > 1) {
+    const clash = getCountryZones(countryCode).some((tz) => {
+      if (tz === timezone) return false;
+      const other = getCityWords(tz);
+      return other.join("") === initials || (other.length > 1 && other.map((w) => w[0]).join("") === initials);
+    });
+    if (!clash) return initials;
+  }
+  return words.join("");
+}
+
+/**
+ * Pick one zone of a country from a sub code ("la", "los_angeles",
+ * "indiana-knox", "chi"): city name, then trailing path, then short code,
+ * then city prefix. Ties keep getCountryZones order.
+ */
+export function findCountryZone(countryCode: string, subCode: string): string | null {
+  const key = normalizeZoneKey(subCode);
+  if (!key) return null;
+
+  const zones = getCountryZones(countryCode);
+  const tiers: ((tz: string) => boolean)[] = [
+    (tz) => getCityWords(tz).join("") === key,
+    (tz) => {
+      const segments = tz.split("/").map(normalizeZoneKey);
+      return segments.some((_, start) => segments.slice(start).join("") === key);
+    },
+    (tz) => getZoneShortCode(countryCode, tz) === key,
+    (tz) => getCityWords(tz).join("").startsWith(key),
+  ];
+
+  for (const tier of tiers) {
+    const match = zones.find(tier);
+    if (match) return match;
+  }
+  return null;
+}
+
+/** Whether a zone switches offset at some point during the current year */
+export function zoneObservesDst(timezone: string): boolean {
+  const year = DateTime.now().year;
+  const january = DateTime.fromObject({ year, month: 1, day: 1 }, { zone: timezone });
+  const july = DateTime.fromObject({ year, month: 7, day: 1 }, { zone: timezone });
+  return january.offset !== july.offset;
+}
+
+/**
+ * Zone for an abbreviation: its fixed offset ("UTC-8" for PST) unless DST
+ * should be followed. Zones without DST are returned as-is, since both
+ * readings agree there.
+ */
+function getAbbreviationZone({ entry, followDst }: AbbreviationMatch): string {
+  if (followDst || !zoneObservesDst(entry.timezone)) {
+    return entry.timezone;
+  }
+  return FixedOffsetZone.instance(entry.offset).name;
+}
+
+/** "UTC+5:30", "gmt-3", "+0530" -> minutes east of UTC, or null if the code is not an offset */
+export function parseUtcOffset(code: string): number | null {
+  const match = code.toUpperCase().match(/^(?:UTC|GMT)?([+-])(\d{1,2})(?::?(\d{2}))?$/);
+  if (!match) return null;
+
+  const hours = parseInt(match[2], 10);
+  const minutes = match[3] ? parseInt(match[3], 10) : 0;
+  if (hours > 14 || minutes > 59 || (hours === 14 && minutes > 0)) return null;
+
+  return (match[1] === "-" ? -1 : 1) * (hours * 60 + minutes);
+}
+
+/** 330 -> "UTC+05:30" */
+export function formatUtcOffset(offset: number): string {
+  const sign = offset < 0 ? "-" : "+";
+  const abs = Math.abs(offset);
+  return `UTC${sign}${String(Math.floor(abs / 60)).padStart(2, "0")}:${String(abs % 60).padStart(2, "0")}`;
+}
+
+/** Calendar days between the base time's date and the same instant's local date (-1, 0, +1) */
+export function getDayShift(base: DateTime, local: DateTime): number {
+  const baseDay = Date.UTC(base.year, base.month - 1, base.day);
+  const localDay = Date.UTC(local.year, local.month - 1, local.day);
+  return Math.round((localDay - baseDay) / 86_400_000);
+}
+
+/** 1 -> "+1 day", -1 -> "−1 day", 0 -> "" */
+export function formatDayShift(shift: number): string {
+  if (shift === 0) return "";
+  const days = Math.abs(shift);
+  return `${shift > 0 ? "+" : "−"}${days} day${days > 1 ? "s" : ""}`;
+}
+
+/** "PDT · UTC-07:00"; zones without a common abbreviation read "GMT+3" on their own */
+export function formatZoneOffset(local: DateTime): string {
+  const name = local.toFormat("ZZZZ", { locale: "en-US" });
+  if (/^(GMT|UTC)/.test(name)) return name;
+  return `${name} · ${formatUtcOffset(local.offset)}`;
+}
+
+/** Get timezone info */
+export function getTimeZoneFromCode(code: string): ZoneInfo | null {
+  const upperCode = code.toUpperCase();
+
+  // Checked before IANA names, whose Etc/GMT+5 means UTC-5
+  const utcOffset = parseUtcOffset(upperCode);
+  if (utcOffset !== null) {
+    return {
+      timezone: FixedOffsetZone.instance(utcOffset).name,
+      displayName: formatUtcOffset(utcOffset),
+      flagComponent: <GlobeAltIcon className="w-6 h-4 text-blue-500" />,
+    };
+  }
+
+  const abbreviation = matchAbbreviation(upperCode);
+  if (abbreviation) {
+    return {
+      timezone: getAbbreviationZone(abbreviation),
+      displayName: abbreviation.entry.abbreviation,
+      flagComponent: <GlobeAltIcon className="w-6 h-4 text-blue-500" />,
+      abbreviation,
+    };
+  }
+
+  // "US" or "US-LA": a country, optionally narrowed to one of its zones
+  const countryMatch = upperCode.match(/^([A-Z]{2})(?:[-_](.+))?$/);
+  if (countryMatch) {
+    const [, countryCode, subCode] = countryMatch;
+    const matchedCountry = countriesData.find((c) => c.cca2.toUpperCase() === countryCode);
+    if (matchedCountry) {
+      const zone = subCode
+        ? findCountryZone(countryCode, subCode)
+        : getCountryZones(countryCode)[0] || null;
+      if (zone) {
+        const FlagComponent = Flags[countryCode as keyof typeof Flags] as FlagComponent;
+        return {
+          timezone: zone,
+          displayName: subCode
+            ? `${matchedCountry.name.common} (${getZoneCityName(zone)})`
+            : matchedCountry.name.common,
+          flagComponent: <FlagComponent className="w-6 h-4" />,
+          countryCode,
+        };
+      }
+    }
+  }
+
+  const [ianaZone] = findIanaZones(code);
+  if (ianaZone) {
+    return {
+      timezone: ianaZone,
+      displayName: getZoneCityName(ianaZone),
+      flagComponent: getZoneFlag(ianaZone),
+    };
+  }
+
+  const city = CITY_ALIASES[normalizeZoneKey(code)];
+  if (city) {
+    return {
+      timezone: city.timezone,
+      displayName: city.name,
+      flagComponent: getZoneFlag(city.timezone),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Shortest route code that resolves back to a zone: the country code for its
+ * primary zone ("tr"), country and city ("us-la"), the IANA id
+ * ("america-argentina-buenos_aires"), else its current UTC offset.
+ */
+export function getZoneRouteCode(timezone: string): string {
+  // The zone's own country, before any alias: Europe/Copenhagen is Denmark even though it links to Europe/Berlin
+  const country = getCountryForTimezone(timezone);
+  // Browsers may report a legacy name such as Asia/Calcutta; follow it only when it is a rename within the country
+  const aliasOf = getTimezone(timezone)?.aliasOf;
+  const renamed = aliasOf && getCountryForTimezone(aliasOf)?.id === country?.id ? aliasOf : null;
+  const zone = renamed || timezone;
+  const candidates: string[] = [];
+
+  if (country) {
+    const countryCode = country.id.toLowerCase();
+    candidates.push(countryCode, `${countryCode}-${getZoneShortCode(country.id, zone)}`);
+  }
+  candidates.push(zone.toLowerCase().replace(/\//g, "-"));
+
+  // Only a code that lands on this very zone, never on another zone that shares its clock
+  const match = candidates.find((code) => {
+    const resolved = getTimeZoneFromCode(code)?.timezone;
+    return resolved === timezone || (renamed !== null && resolved === renamed);
+  });
+  if (match) return match;
+
+  const offset = DateTime.now().setZone(timezone).offset;
+  return formatUtcOffset(offset).replace(":", "").toLowerCase();
+}
@@ -0,0 +1,124 @@
+/** A named, saved set of comparison codes ("Istanbul team": tr, us-ny, jp) */
+export interface Workspace {
+  id: string;
+  name: string;
+  codes: string[];
+}
+
+export interface WorkspaceStore {
+  workspaces: Workspace[];
+  defaultId: string | null;
+}
+
+/** Shape of an exported workspace file */
+interface WorkspaceExport {
+  version: 1;
+  workspaces: { name: string; codes: string[] }[];
+}
+
+const STORAGE_KEY = "timezonebaby.workspaces";
+
+const emptyStore = (): WorkspaceStore => ({ workspaces: [], defaultId: null });
+
+const createId = () => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+function isWorkspaceLike(value: unknown): value is { name: string; codes: string[] } {
+  if (!value || typeof value !== "object") return false;
+  const { name, codes } = value as { name?: unknown; codes?: unknown };
+  return (
+    typeof name === "string" &&
+    name.trim().length > 0 &&
+    Array.isArray(codes) &&
+    codes.every((code) => typeof code === "string")
+  );
+}
+
+/** Read the store from localStorage; a missing or corrupt entry yields an empty store */
+export function loadWorkspaces(): WorkspaceStore {
+  if (typeof window === "undefined") return emptyStore();
+
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return emptyStore();
+
+    const parsed = JSON.parse(raw) as Partial<WorkspaceStore>;
+    const workspaces = Array.isArray(parsed.workspaces)
+      ? parsed.workspaces.filter(
+          (w): w is Workspace => isWorkspaceLike(w) && typeof (w as Workspace).id === "string"
+        )
+      : [];
+    const defaultId = workspaces.some((w) => w.id === parsed.defaultId) ? parsed.defaultId! : null;
+    return { workspaces, defaultId };
+  } catch (err) {
+    console.warn("Could not read saved workspaces:", err);
+    return emptyStore();
+  }
+}
+
+export function saveWorkspaces(store: WorkspaceStore): void {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+  } catch (err) {
+    console.warn("Could not save workspaces:", err);
+  }
+}
+
+export function getDefaultWorkspace(store: WorkspaceStore): Workspace | null {
+  return store.workspaces.find((w) => w.id === store.defaultId) || null;
+}
+
+/** Save codes under a name, replacing an existing workspace of the same name */
+export function upsertWorkspace(store: WorkspaceStore, name: string, codes: string[]): WorkspaceStore {
+  const trimmed = name.trim();
+  const existing = store.workspaces.find((w) => w.name.toLowerCase() === trimmed.toLowerCase());
+  if (existing) {
+    return {
+      ...store,
+      workspaces: store.workspaces.map((w) => (w.id === existing.id ? { ...w, name: trimmed, codes } : w)),
+    };
+  }
+  return { ...store, workspaces: [...store.workspaces, { id: createId(), name: trimmed, codes }] };
+}
+
+export function removeWorkspace(store: WorkspaceStore, id: string): WorkspaceStore {
+  return {
+    workspaces: store.workspaces.filter((w) => w.id !== id),
+    defaultId: store.defaultId === id ? null : store.defaultId,
+  };
+}
+
+/** Make a workspace the default, or clear the default when it already is */
+export function toggleDefaultWorkspace(store: WorkspaceStore, id: string): WorkspaceStore {
+  return { ...store, defaultId: store.defaultId === id ? null : id };
+}
+
+export function exportWorkspaces(store: WorkspaceStore): string {
+  const data: WorkspaceExport = {
+    version: 1,
+    workspaces: store.workspaces.map(({ name, codes }) => ({ name, codes })),
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+/**
+ * Merge an exported file into the store. Workspaces with a name that already
+ * exists replace it. Throws with a readable message on malformed files.
+ */
+export function importWorkspaces(store: WorkspaceStore, text: string): WorkspaceStore {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+
+  const workspaces = (data as Partial<WorkspaceExport>)?.workspaces;
+  if (!Array.isArray(workspaces) || !workspaces.every(isWorkspaceLike)) {
+    throw new Error("The file does not contain any workspaces.");
+  }
+
+  return workspaces.reduce(
+    (acc, w) => upsertWorkspace(acc, w.name, w.codes.map((code) => code.toLowerCase())),
+    store
+  );
+}